@@ -1,12 +1,17 @@
-import { useState, useRef, KeyboardEvent } from 'react';
+import { useState, useRef, useEffect, KeyboardEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Send, X, Image as ImageIcon } from 'lucide-react';
+import { Send, X, Square, Image as ImageIcon, FileText } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
 import { toast } from '@/hooks/useToast';
+import { MCPPrompt, MCPResource } from '@olympian/shared';
+import { api } from '@/services/api';
+import { filterPrompts, getSlashQuery, renderPromptMessages } from '@/lib/promptUtils';
+import { ResourcePicker } from './ResourcePicker';
+import { PromptArgumentsForm, PromptCommandMenu } from './PromptCommandMenu';
 
 interface ChatInputProps {
-  onSendMessage: (content: string, images?: string[]) => void;
+  onSendMessage: (content: string, images?: string[], resources?: MCPResource[]) => void;
   onCancel: () => void;
   isDisabled: boolean;
   isGenerating: boolean;
@@ -15,9 +20,36 @@ interface ChatInputProps {
 export function ChatInput({ onSendMessage, onCancel, isDisabled, isGenerating }: ChatInputProps) {
   const [message, setMessage] = useState('');
   const [images, setImages] = useState<{ file: File; preview: string }[]>([]);
+  const [resources, setResources] = useState<MCPResource[]>([]);
+  const [prompts, setPrompts] = useState<MCPPrompt[]>([]);
+  const [promptsLoading, setPromptsLoading] = useState(false);
+  const [highlightedPrompt, setHighlightedPrompt] = useState(0);
+  const [promptMenuDismissed, setPromptMenuDismissed] = useState(false);
+  const [activePrompt, setActivePrompt] = useState<MCPPrompt | null>(null);
+  const [isRenderingPrompt, setIsRenderingPrompt] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Slash commands: "/name" at the start of an otherwise empty composer lists MCP prompts
+  const slashQuery = getSlashQuery(message);
+  const showPromptMenu = slashQuery !== null && !promptMenuDismissed && !activePrompt && !isDisabled;
+  const matchingPrompts = showPromptMenu ? filterPrompts(prompts, slashQuery) : [];
+  const highlightedIndex = Math.min(highlightedPrompt, Math.max(matchingPrompts.length - 1, 0));
+
+  // Refresh the prompt list each time the menu opens - servers come and go
+  useEffect(() => {
+    if (!showPromptMenu) return;
+
+    setPromptsLoading(true);
+    api.getMCPPrompts()
+      .then(setPrompts)
+      .catch((error) => {
+        console.error('❌ [ChatInput] Failed to load MCP prompts:', error);
+        setPrompts([]);
+      })
+      .finally(() => setPromptsLoading(false));
+  }, [showPromptMenu]);
+
   const onDrop = (acceptedFiles: File[]) => {
     const imageFiles = acceptedFiles.filter(file => file.type.startsWith('image/'));
     
@@ -62,13 +94,79 @@ export function ChatInput({ onSendMessage, onCancel, isDisabled, isGenerating }:
       })
     );
 
-    onSendMessage(message, base64Images.length > 0 ? base64Images : undefined);
+    onSendMessage(
+      message,
+      base64Images.length > 0 ? base64Images : undefined,
+      resources.length > 0 ? resources : undefined
+    );
     setMessage('');
     setImages([]);
+    setResources([]);
+    textareaRef.current?.focus();
+  };
+
+  const handleMessageChange = (value: string) => {
+    setMessage(value);
+    setHighlightedPrompt(0);
+    if (!value.startsWith('/')) {
+      setPromptMenuDismissed(false);
+    }
+  };
+
+  const insertPrompt = async (prompt: MCPPrompt, args: Record<string, string>) => {
+    setIsRenderingPrompt(true);
+    try {
+      const result = await api.getMCPPrompt(prompt.serverId, prompt.name, args);
+      setMessage(renderPromptMessages(result));
+      setActivePrompt(null);
+      textareaRef.current?.focus();
+    } catch (error) {
+      console.error('❌ [ChatInput] Failed to render MCP prompt:', error);
+      toast({
+        title: 'Error',
+        description: `Failed to load prompt "${prompt.name}"`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRenderingPrompt(false);
+    }
+  };
+
+  const selectPrompt = (prompt: MCPPrompt) => {
+    if (prompt.arguments && prompt.arguments.length > 0) {
+      setActivePrompt(prompt);
+    } else {
+      insertPrompt(prompt, {});
+    }
+  };
+
+  const cancelPrompt = () => {
+    setActivePrompt(null);
     textareaRef.current?.focus();
   };
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (showPromptMenu) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setPromptMenuDismissed(true);
+        return;
+      }
+      if (matchingPrompts.length > 0) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setHighlightedPrompt((highlightedIndex + step + matchingPrompts.length) % matchingPrompts.length);
+          return;
+        }
+        if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+          e.preventDefault();
+          selectPrompt(matchingPrompts[highlightedIndex]);
+          return;
+        }
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -84,6 +182,14 @@ export function ChatInput({ onSendMessage, onCancel, isDisabled, isGenerating }:
     });
   };
 
+  const addResource = (resource: MCPResource) => {
+    setResources(prev => [...prev, resource]);
+  };
+
+  const removeResource = (index: number) => {
+    setResources(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleImageButtonClick = () => {
     if (!isDisabled && fileInputRef.current) {
       fileInputRef.current.click();
@@ -123,6 +229,40 @@ export function ChatInput({ onSendMessage, onCancel, isDisabled, isGenerating }:
         </div>
       )}
 
+      {/* Attached MCP Resources */}
+      {resources.length > 0 && (
+        <div className="flex gap-2 flex-wrap">
+          {resources.map((resource, index) => (
+            <div
+              key={`${resource.serverId}:${resource.uri}`}
+              className="flex items-center gap-1 rounded-md border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-300"
+              title={resource.uri}
+            >
+              <FileText className="h-3 w-3" />
+              <span className="max-w-[200px] truncate">{resource.name || resource.uri}</span>
+              <button
+                onClick={() => removeResource(index)}
+                className="text-gray-500 hover:text-red-400"
+                aria-label={`Remove resource ${resource.name || resource.uri}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Arguments for the selected MCP prompt */}
+      {activePrompt && (
+        <PromptArgumentsForm
+          key={`${activePrompt.serverId}:${activePrompt.name}`}
+          prompt={activePrompt}
+          isSubmitting={isRenderingPrompt}
+          onSubmit={(args) => insertPrompt(activePrompt, args)}
+          onCancel={cancelPrompt}
+        />
+      )}
+
       {/* Input Area */}
       <div {...getRootProps()} className="relative">
         <input {...getInputProps()} />
@@ -135,13 +275,23 @@ export function ChatInput({ onSendMessage, onCancel, isDisabled, isGenerating }:
 
         <div className="flex gap-2">
           <div className="flex-1 relative">
+            {showPromptMenu && (
+              <PromptCommandMenu
+                prompts={matchingPrompts}
+                loading={promptsLoading && prompts.length === 0}
+                highlightedIndex={highlightedIndex}
+                onHighlight={setHighlightedPrompt}
+                onSelect={selectPrompt}
+              />
+            )}
+
             <Textarea
               ref={textareaRef}
               value={message}
-              onChange={(e) => setMessage(e.target.value)}
+              onChange={(e) => handleMessageChange(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Type your message... (Shift+Enter for new line)"
-              className="resize-none pr-10 bg-gray-800 border-gray-700 text-white placeholder:text-gray-500 focus:border-gray-600"
+              placeholder="Type your message... (/ for prompts, Shift+Enter for new line)"
+              className="resize-none pr-20 bg-gray-800 border-gray-700 text-white placeholder:text-gray-500 focus:border-gray-600"
               rows={3}
               disabled={isDisabled}
             />
@@ -157,6 +307,14 @@ export function ChatInput({ onSendMessage, onCancel, isDisabled, isGenerating }:
               disabled={isDisabled}
             />
             
+            {/* MCP resource picker */}
+            <ResourcePicker
+              selected={resources}
+              onSelect={addResource}
+              disabled={isDisabled}
+              className="absolute bottom-2 right-10"
+            />
+
             {/* Image upload button */}
             <Button
               type="button"
@@ -177,8 +335,8 @@ export function ChatInput({ onSendMessage, onCancel, isDisabled, isGenerating }:
               variant="destructive"
               className="self-end bg-red-600 hover:bg-red-700"
             >
-              <X className="mr-2 h-4 w-4" />
-              Cancel
+              <Square className="mr-2 h-4 w-4" />
+              Stop
             </Button>
           ) : (
             <Button
@@ -0,0 +1,166 @@
+import { InputHTMLAttributes, KeyboardEvent, useEffect, useRef, useState } from 'react';
+import { MCPCompletionRequest } from '@olympian/shared';
+import { api } from '@/services/api';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+const DEBOUNCE_MS = 250;
+const PAGE_SIZE = 8;
+
+interface CompletionInputProps extends Omit<InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'> {
+  serverId: string;
+  completionRef: MCPCompletionRequest['ref'];
+  argumentName: string;
+  value: string;
+  onChange: (value: string) => void;
+  // Values of the other arguments, so servers can narrow suggestions
+  contextArguments?: Record<string, string>;
+}
+
+/**
+ * Text input that asks the owning MCP server for completions as the user types
+ */
+export function CompletionInput({
+  serverId,
+  completionRef,
+  argumentName,
+  value,
+  onChange,
+  contextArguments,
+  className,
+  onKeyDown,
+  ...inputProps
+}: CompletionInputProps) {
+  const [open, setOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [total, setTotal] = useState<number | undefined>(undefined);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [highlighted, setHighlighted] = useState(-1);
+  const latestRequest = useRef(0);
+
+  const refKey = completionRef.type === 'ref/prompt' ? completionRef.name : completionRef.uri;
+  const contextKey = JSON.stringify(contextArguments || {});
+
+  useEffect(() => {
+    if (!open) return;
+
+    const requestId = ++latestRequest.current;
+    const timer = setTimeout(() => {
+      api.completeMCPArgument(serverId, {
+        ref: completionRef,
+        argument: { name: argumentName, value },
+        context: contextArguments ? { arguments: contextArguments } : undefined,
+      })
+        .then((completion) => {
+          // Ignore responses that arrive after a newer keystroke
+          if (requestId !== latestRequest.current) return;
+          setSuggestions(completion.values.filter(suggestion => suggestion !== value));
+          setHasMore(!!completion.hasMore);
+          setTotal(completion.total);
+          setVisibleCount(PAGE_SIZE);
+          setHighlighted(-1);
+        })
+        .catch((error) => {
+          if (requestId !== latestRequest.current) return;
+          console.error('❌ [CompletionInput] Completion request failed:', error);
+          setSuggestions([]);
+          setHasMore(false);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [open, serverId, completionRef.type, refKey, argumentName, value, contextKey]);
+
+  const visibleSuggestions = suggestions.slice(0, visibleCount);
+  const showList = open && suggestions.length > 0;
+
+  const accept = (suggestion: string) => {
+    onChange(suggestion);
+    setSuggestions([]);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (showList) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlighted(prev => (prev + 1) % visibleSuggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted(prev => (prev <= 0 ? visibleSuggestions.length - 1 : prev - 1));
+        return;
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && highlighted >= 0) {
+        e.preventDefault();
+        accept(visibleSuggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        setOpen(false);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        {...inputProps}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        autoComplete="off"
+        className={className}
+      />
+
+      {showList && (
+        <div
+          className="absolute left-0 right-0 top-full mt-1 max-h-56 overflow-y-auto rounded-md border border-gray-700 bg-gray-900 shadow-lg z-30"
+          // Keep focus in the input while interacting with the list
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {visibleSuggestions.map((suggestion, index) => (
+            <button
+              key={suggestion}
+              type="button"
+              onMouseEnter={() => setHighlighted(index)}
+              onClick={() => accept(suggestion)}
+              className={cn(
+                'w-full px-3 py-1.5 text-left text-sm text-gray-200 truncate',
+                index === highlighted ? 'bg-gray-800' : 'hover:bg-gray-800'
+              )}
+            >
+              {suggestion}
+            </button>
+          ))}
+
+          {suggestions.length > visibleCount && (
+            <button
+              type="button"
+              onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)}
+              className="w-full px-3 py-1.5 text-left text-xs text-blue-400 hover:bg-gray-800"
+            >
+              Show more ({suggestions.length - visibleCount} remaining)
+            </button>
+          )}
+
+          {hasMore && suggestions.length <= visibleCount && (
+            <div className="px-3 py-1.5 text-xs text-gray-500">
+              {total ? `Showing ${suggestions.length} of ${total}` : 'More results available'} - keep typing to narrow
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
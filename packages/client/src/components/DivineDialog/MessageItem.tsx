@@ -1,4 +1,4 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { Message } from '@olympian/shared';
 import { format } from 'date-fns';
 import ReactMarkdown from 'react-markdown';
@@ -8,6 +8,7 @@ import { ThinkingSection } from './ThinkingSection';
 import { CodeBlock } from '../ui/codeblock';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
 import { useArtifactStore } from '@/stores/useArtifactStore';
 import { 
   getDisplayContentForMessage, 
@@ -23,7 +24,11 @@ import {
   ExternalLink,
   AlertTriangle,
   Layers,
+  ChevronLeft,
   ChevronRight,
+  Wrench,
+  Pencil,
+  RefreshCw,
 } from 'lucide-react';
 import { 
   getArtifactCount, 
@@ -42,6 +47,11 @@ interface MessageItemProps {
   hasCompletedTypewriter: boolean;
   isMessageFinalized: boolean;
   onTypewriterComplete: (message: Message, index?: number) => void;
+  // Regenerate, edit and branch switching are only offered for stored messages
+  actionsDisabled?: boolean;
+  onRegenerate?: () => void;
+  onEdit?: (content: string) => void;
+  onSelectBranch?: (messageId: string) => void;
 }
 
 export function MessageItem({ 
@@ -50,9 +60,25 @@ export function MessageItem({
   isLatest = false, 
   hasCompletedTypewriter,
   isMessageFinalized,
-  onTypewriterComplete 
+  onTypewriterComplete,
+  actionsDisabled = false,
+  onRegenerate,
+  onEdit,
+  onSelectBranch,
 }: MessageItemProps) {
   const isUser = message.role === 'user';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const canAct = !!message._id && !actionsDisabled;
+  const branch = message.branch;
+
+  const handleSaveEdit = () => {
+    const content = draft.trim();
+    setIsEditing(false);
+    if (content && content !== message.content) {
+      onEdit?.(content);
+    }
+  };
   
   // Enhanced logic: show typewriter only if it's the latest assistant message 
   // that hasn't completed yet AND hasn't been finalized (prevents re-typewriting existing messages)
@@ -245,7 +271,37 @@ export function MessageItem({
               • {message.metadata.tokens} tokens
             </span>
           )}
-          
+          {message.metadata?.cancelled && (
+            <span className="text-xs text-yellow-500" title="Generation was stopped; this answer is incomplete">
+              • stopped
+            </span>
+          )}
+
+          {/* Sibling branches created by regenerating or editing */}
+          {branch && branch.siblingIds.length > 1 && onSelectBranch && (
+            <span className="flex items-center text-xs text-gray-400">
+              <button
+                type="button"
+                className="p-0.5 hover:text-white disabled:opacity-40 disabled:hover:text-gray-400"
+                disabled={!canAct || branch.index === 0}
+                onClick={() => onSelectBranch(branch.siblingIds[branch.index - 1])}
+                title="Previous version"
+              >
+                <ChevronLeft className="h-3 w-3" />
+              </button>
+              {branch.index + 1}/{branch.siblingIds.length}
+              <button
+                type="button"
+                className="p-0.5 hover:text-white disabled:opacity-40 disabled:hover:text-gray-400"
+                disabled={!canAct || branch.index === branch.siblingIds.length - 1}
+                onClick={() => onSelectBranch(branch.siblingIds[branch.index + 1])}
+                title="Next version"
+              >
+                <ChevronRight className="h-3 w-3" />
+              </button>
+            </span>
+          )}
+
           {/* ENHANCED: Thinking indicator badge */}
           {messageHasThinking && (
             <Badge 
@@ -256,6 +312,18 @@ export function MessageItem({
             </Badge>
           )}
           
+          {/* Tools offered to the model after relevance preselection */}
+          {!isUser && message.metadata?.offeredTools && message.metadata.offeredTools.length > 0 && (
+            <Badge
+              variant="outline"
+              className="text-xs flex items-center gap-1 text-gray-300 border-gray-600"
+              title={message.metadata.offeredTools.join('\n')}
+            >
+              <Wrench className="h-3 w-3" />
+              {message.metadata.offeredTools.length} {message.metadata.offeredTools.length === 1 ? 'tool' : 'tools'} offered
+            </Badge>
+          )}
+          
           {/* NEW: Enhanced artifact indicator with multi-artifact support (Phase 4) */}
           {artifactDisplayInfo.hasArtifacts && (
             <Badge 
@@ -310,8 +378,50 @@ export function MessageItem({
             </div>
           )}
           
+          {/* Attached MCP resources */}
+          {message.metadata?.attachedResources && message.metadata.attachedResources.length > 0 && (
+            <div className="flex gap-2 flex-wrap mb-2">
+              {message.metadata.attachedResources.map(resource => (
+                <Badge
+                  key={`${resource.serverId}:${resource.uri}`}
+                  variant="outline"
+                  className="text-xs text-gray-300 border-gray-600"
+                  title={resource.uri}
+                >
+                  <FileText className="h-3 w-3 mr-1" />
+                  {resource.name || resource.uri}
+                </Badge>
+              ))}
+            </div>
+          )}
+          
           {/* Content */}
-          {isUser ? (
+          {isUser && isEditing ? (
+            <div className="space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSaveEdit();
+                  } else if (e.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                className="bg-gray-900 border-gray-700 text-sm text-white"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleSaveEdit} disabled={!draft.trim() || actionsDisabled}>
+                  Save & Send
+                </Button>
+              </div>
+            </div>
+          ) : isUser ? (
             <p className="text-sm text-white/90">{message.content}</p>
           ) : (
             <>
@@ -524,6 +634,36 @@ export function MessageItem({
             </div>
           )}
         </div>
+
+        {/* Message actions */}
+        {canAct && !isEditing && (isUser ? onEdit : onRegenerate) && (
+          <div className={cn('w-full max-w-3xl flex mt-1', isUser ? 'justify-end' : 'justify-start')}>
+            {isUser ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-gray-400 hover:text-white"
+                onClick={() => {
+                  setDraft(message.content);
+                  setIsEditing(true);
+                }}
+              >
+                <Pencil className="h-3 w-3 mr-1" />
+                Edit
+              </Button>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-gray-400 hover:text-white"
+                onClick={onRegenerate}
+              >
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Regenerate
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
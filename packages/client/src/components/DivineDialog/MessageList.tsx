@@ -12,6 +12,10 @@ interface MessageListProps {
   hasCompletedTypewriter: (message: Message, index?: number) => boolean;
   isMessageFinalized: (message: Message, index?: number) => boolean;
   onTypewriterComplete: (message: Message, index?: number) => void;
+  actionsDisabled?: boolean;
+  onRegenerate?: (message: Message, index: number) => void;
+  onEdit?: (message: Message, index: number, content: string) => void;
+  onSelectBranch?: (messageId: string) => void;
 }
 
 export function MessageList({
@@ -23,6 +27,10 @@ export function MessageList({
   hasCompletedTypewriter,
   isMessageFinalized,
   onTypewriterComplete,
+  actionsDisabled = false,
+  onRegenerate,
+  onEdit,
+  onSelectBranch,
 }: MessageListProps) {
   if (messages.length === 0 && !isThinking && !isGenerating) {
     return (
@@ -46,6 +54,10 @@ export function MessageList({
           hasCompletedTypewriter={hasCompletedTypewriter(message, index)}
           isMessageFinalized={isMessageFinalized(message, index)}
           onTypewriterComplete={onTypewriterComplete}
+          actionsDisabled={actionsDisabled}
+          onRegenerate={onRegenerate && (() => onRegenerate(message, index))}
+          onEdit={onEdit && (content => onEdit(message, index, content))}
+          onSelectBranch={onSelectBranch}
         />
       ))}
       
@@ -9,7 +9,7 @@ import {
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Bot, Settings, ImageIcon } from 'lucide-react';
+import { Bot, Settings, ImageIcon, Drama } from 'lucide-react';
 import { ModelSettings } from './ModelSettings';
 
 interface ModelSelectorProps {
@@ -24,11 +24,19 @@ export function ModelSelector({ hasImages }: ModelSelectorProps) {
     selectedVisionModel,
     selectModel,
     selectVisionModel,
+    personas,
+    selectedPersonaId,
+    selectPersona,
+    fetchPersonas,
     isLoadingModels
   } = useChatStore();
   
   const [showSettings, setShowSettings] = useState(false);
 
+  useEffect(() => {
+    fetchPersonas();
+  }, [fetchPersonas]);
+
   // Remove the fetchVisionModels call since it's already handled in fetchModels()
   // which is called from DivineDialog component. This prevents 429 rate limiting errors.
 
@@ -53,6 +61,10 @@ export function ModelSelector({ hasImages }: ModelSelectorProps) {
     selectVisionModel(value === 'auto' ? '' : value);
   };
 
+  const handlePersonaChange = (value: string) => {
+    selectPersona(value === 'none' ? null : value);
+  };
+
   const handleModelChange = (value: string) => {
     console.log('🎨 [ModelSelector] handleModelChange called with value:', value);
     selectModel(value);
@@ -86,6 +98,28 @@ export function ModelSelector({ hasImages }: ModelSelectorProps) {
   return (
     <>
       <div className="flex items-center gap-4">
+        {/* Persona Selector */}
+        {personas.length > 0 && (
+          <Select value={selectedPersonaId || 'none'} onValueChange={handlePersonaChange}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Persona" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">
+                <span className="text-muted-foreground">No persona</span>
+              </SelectItem>
+              {personas.map((persona) => (
+                <SelectItem key={persona._id} value={persona._id!}>
+                  <div className="flex items-center gap-2">
+                    <Drama className="h-4 w-4" />
+                    <span>{persona.name}</span>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         {/* AI Model Selector */}
         <div className="flex items-center gap-2">
           <Select value={selectedModel || ''} onValueChange={handleModelChange}>
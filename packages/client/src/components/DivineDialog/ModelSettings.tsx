@@ -14,6 +14,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Bot, ImageIcon, Wrench, Brain, Cpu, Database } from 'lucide-react';
 import { ToolSelectionPanel } from "@/components/mcp";
+import { PersonaManager } from './PersonaManager';
 
 interface ModelSettingsProps {
   open: boolean;
@@ -106,10 +107,11 @@ export function ModelSettings({ open, onOpenChange }: ModelSettingsProps) {
         </DialogHeader>
         
         <Tabs defaultValue="model-types" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="model-types">Model Types</TabsTrigger>
             <TabsTrigger value="model-config">Model Config</TabsTrigger>
             <TabsTrigger value="mcp-tools">MCP Tools</TabsTrigger>
+            <TabsTrigger value="personas">Personas</TabsTrigger>
           </TabsList>
           
           <TabsContent value="model-types" className="mt-4">
@@ -323,6 +325,10 @@ export function ModelSettings({ open, onOpenChange }: ModelSettingsProps) {
             </div>
             <ToolSelectionPanel />
           </TabsContent>
+
+          <TabsContent value="personas" className="mt-4">
+            <PersonaManager />
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
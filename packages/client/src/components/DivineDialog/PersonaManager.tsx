@@ -0,0 +1,336 @@
+import { useEffect, useRef, useState } from 'react';
+import { Persona, PersonaExport, PersonaInput, PersonaSampling, ToolSet } from '@olympian/shared';
+import { useChatStore } from '@/stores/useChatStore';
+import { api } from '@/services/api';
+import { toast } from '@/hooks/useToast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Download, Drama, Plus, Save, Trash2, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const NONE = 'none';
+
+const SAMPLING_FIELDS: Array<{ key: keyof PersonaSampling; label: string; step: string }> = [
+  { key: 'temperature', label: 'Temperature', step: '0.1' },
+  { key: 'top_p', label: 'Top P', step: '0.05' },
+  { key: 'seed', label: 'Seed', step: '1' },
+  { key: 'num_ctx', label: 'Context window', step: '512' },
+];
+
+const EMPTY_FORM: PersonaInput = { name: '', systemPrompt: '' };
+
+function toForm(persona: Persona): PersonaInput {
+  const { name, description, systemPrompt, defaultModel, sampling, toolSetId } = persona;
+  return { name, description, systemPrompt, defaultModel, sampling, toolSetId };
+}
+
+export function PersonaManager() {
+  const { personas, fetchPersonas, models, currentConversation, selectedPersonaId, setCurrentConversation } = useChatStore();
+  const [toolSets, setToolSets] = useState<ToolSet[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PersonaInput>(EMPTY_FORM);
+  const [promptOverride, setPromptOverride] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const conversationId = currentConversation?._id?.toString();
+
+  useEffect(() => {
+    fetchPersonas();
+    api.getToolSets()
+      .then(({ toolSets }) => setToolSets(toolSets))
+      .catch(error => console.error('❌ [PersonaManager] Failed to load tool sets:', error));
+  }, [fetchPersonas]);
+
+  useEffect(() => {
+    setPromptOverride(currentConversation?.systemPrompt ?? '');
+  }, [conversationId, currentConversation?.systemPrompt]);
+
+  const startEditing = (persona: Persona | null) => {
+    setEditingId(persona?._id ?? null);
+    setForm(persona ? toForm(persona) : EMPTY_FORM);
+  };
+
+  const setSampling = (key: keyof PersonaSampling, value: string) => {
+    const sampling = { ...form.sampling };
+    if (value === '') {
+      delete sampling[key];
+    } else {
+      sampling[key] = Number(value);
+    }
+    setForm({ ...form, sampling });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const persona = editingId
+        ? await api.updatePersona(editingId, form)
+        : await api.createPersona(form);
+      setEditingId(persona._id ?? null);
+      await fetchPersonas();
+      toast({
+        title: 'Success',
+        description: `Persona "${persona.name}" saved`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save persona. Names must be unique.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingId) return;
+
+    try {
+      await api.deletePersona(editingId);
+      startEditing(null);
+      await fetchPersonas();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete persona',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const exportData = await api.exportPersonas();
+      const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'personas-' + Date.now() + '.json';
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to export personas',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const data = JSON.parse(await file.text()) as Partial<PersonaExport>;
+      if (!Array.isArray(data.personas)) {
+        throw new Error('No personas in file');
+      }
+      const { imported, skipped } = await api.importPersonas(data.personas);
+      await fetchPersonas();
+      toast({
+        title: 'Success',
+        description: `Imported ${imported.length} personas` + (skipped.length ? `, skipped ${skipped.length}` : ''),
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to import personas. Expected a persona export file.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // The override applies to the open conversation only; clearing it falls back to the persona's prompt
+  const handleSaveOverride = async (systemPrompt: string | null) => {
+    if (!conversationId) return;
+
+    try {
+      const conversation = await api.setConversationPersona(conversationId, selectedPersonaId, systemPrompt);
+      setCurrentConversation(conversation);
+      toast({
+        title: 'Success',
+        description: systemPrompt ? 'Conversation system prompt saved' : 'Conversation system prompt cleared',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update the conversation system prompt',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-muted-foreground">
+          Personas bundle a system prompt with a default model, sampling options and tool set.
+          Pick one next to the model selector when starting a conversation.
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={personas.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[200px_1fr] gap-4">
+        <ScrollArea className="h-[420px] pr-2">
+          <div className="space-y-1">
+            <Button variant="outline" size="sm" className="w-full justify-start" onClick={() => startEditing(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New persona
+            </Button>
+            {personas.map(persona => (
+              <button
+                key={persona._id}
+                onClick={() => startEditing(persona)}
+                className={cn(
+                  'flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent',
+                  persona._id === editingId && 'bg-accent'
+                )}
+              >
+                <Drama className="h-4 w-4 shrink-0" />
+                <span className="truncate">{persona.name}</span>
+              </button>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <ScrollArea className="h-[420px] pr-2">
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="persona-name">Name</Label>
+              <Input
+                id="persona-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="persona-description">Description</Label>
+              <Input
+                id="persona-description"
+                value={form.description ?? ''}
+                onChange={(e) => setForm({ ...form, description: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="persona-prompt">System prompt</Label>
+              <Textarea
+                id="persona-prompt"
+                rows={6}
+                value={form.systemPrompt}
+                onChange={(e) => setForm({ ...form, systemPrompt: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Default model</Label>
+                <Select
+                  value={form.defaultModel ?? NONE}
+                  onValueChange={(value) => setForm({ ...form, defaultModel: value === NONE ? undefined : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Keep current model</SelectItem>
+                    {models.map(model => (
+                      <SelectItem key={model} value={model}>{model}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Tool set</Label>
+                <Select
+                  value={form.toolSetId ?? NONE}
+                  onValueChange={(value) => setForm({ ...form, toolSetId: value === NONE ? undefined : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Active tool set</SelectItem>
+                    {toolSets.map(set => (
+                      <SelectItem key={set._id} value={set._id!}>{set.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 gap-3">
+              {SAMPLING_FIELDS.map(({ key, label, step }) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`persona-${key}`}>{label}</Label>
+                  <Input
+                    id={`persona-${key}`}
+                    type="number"
+                    step={step}
+                    placeholder="Default"
+                    value={form.sampling?.[key] ?? ''}
+                    onChange={(e) => setSampling(key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button variant="outline" onClick={handleDelete}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              )}
+              <Button onClick={handleSave} disabled={isSaving || !form.name.trim() || !form.systemPrompt.trim()}>
+                <Save className="mr-2 h-4 w-4" />
+                {editingId ? 'Save changes' : 'Create persona'}
+              </Button>
+            </div>
+
+            {conversationId && (
+              <div className="space-y-1 border-t pt-3">
+                <Label htmlFor="conversation-prompt">System prompt for this conversation</Label>
+                <Textarea
+                  id="conversation-prompt"
+                  rows={4}
+                  placeholder="Uses the persona's system prompt when empty"
+                  value={promptOverride}
+                  onChange={(e) => setPromptOverride(e.target.value)}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleSaveOverride(null)} disabled={!currentConversation?.systemPrompt}>
+                    Clear
+                  </Button>
+                  <Button size="sm" onClick={() => handleSaveOverride(promptOverride.trim() || null)}>
+                    Save
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { FormEvent, useState } from 'react';
+import { MCPPrompt } from '@olympian/shared';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { CompletionInput } from './CompletionInput';
+import { Loader2, SquareSlash, X } from 'lucide-react';
+
+interface PromptCommandMenuProps {
+  prompts: MCPPrompt[];
+  loading: boolean;
+  highlightedIndex: number;
+  onHighlight: (index: number) => void;
+  onSelect: (prompt: MCPPrompt) => void;
+}
+
+export function PromptCommandMenu({
+  prompts,
+  loading,
+  highlightedIndex,
+  onHighlight,
+  onSelect,
+}: PromptCommandMenuProps) {
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto rounded-lg border border-gray-700 bg-gray-900 shadow-lg z-20">
+      {loading ? (
+        <div className="flex items-center gap-2 p-3 text-sm text-gray-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading prompts...
+        </div>
+      ) : prompts.length === 0 ? (
+        <div className="p-3 text-sm text-gray-500">No matching MCP prompts</div>
+      ) : (
+        prompts.map((prompt, index) => (
+          <button
+            key={`${prompt.serverId}:${prompt.name}`}
+            type="button"
+            // Keep focus in the textarea so keyboard navigation keeps working
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => onHighlight(index)}
+            onClick={() => onSelect(prompt)}
+            className={cn(
+              'w-full flex items-start gap-2 px-3 py-2 text-left',
+              index === highlightedIndex ? 'bg-gray-800' : 'hover:bg-gray-800'
+            )}
+          >
+            <SquareSlash className="h-4 w-4 mt-0.5 shrink-0 text-gray-400" />
+            <div className="min-w-0">
+              <div className="text-sm text-white">
+                /{prompt.name}
+                <span className="ml-2 text-xs text-gray-500">{prompt.serverId}</span>
+              </div>
+              {prompt.description && (
+                <div className="text-xs text-gray-400 truncate">{prompt.description}</div>
+              )}
+            </div>
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
+
+interface PromptArgumentsFormProps {
+  prompt: MCPPrompt;
+  isSubmitting: boolean;
+  onSubmit: (args: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+export function PromptArgumentsForm({ prompt, isSubmitting, onSubmit, onCancel }: PromptArgumentsFormProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const promptArguments = prompt.arguments || [];
+  const missingRequired = promptArguments.some(arg => arg.required && !values[arg.name]?.trim());
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (missingRequired) return;
+
+    // Only send arguments the user actually filled in
+    const args = Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value.trim() !== '')
+    );
+    onSubmit(args);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-lg border border-gray-700 bg-gray-900 p-3 space-y-3"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="text-sm font-medium text-white">/{prompt.name}</div>
+          {prompt.description && (
+            <div className="text-xs text-gray-400">{prompt.description}</div>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-gray-500 hover:text-white"
+          aria-label="Cancel prompt"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {promptArguments.map((arg, index) => (
+        <div key={arg.name} className="space-y-1">
+          <Label htmlFor={`prompt-arg-${arg.name}`} className="text-xs text-gray-300">
+            {arg.name}
+            {arg.required && <span className="text-red-400"> *</span>}
+          </Label>
+          <CompletionInput
+            id={`prompt-arg-${arg.name}`}
+            serverId={prompt.serverId}
+            completionRef={{ type: 'ref/prompt', name: prompt.name }}
+            argumentName={arg.name}
+            contextArguments={values}
+            value={values[arg.name] || ''}
+            onChange={(value) => setValues(prev => ({ ...prev, [arg.name]: value }))}
+            placeholder={arg.description}
+            autoFocus={index === 0}
+            className="bg-gray-800 border-gray-700 text-white"
+          />
+        </div>
+      ))}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={missingRequired || isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Insert prompt
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,243 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { MCPResource, MCPResourceTemplate } from '@olympian/shared';
+import { api } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/hooks/useToast';
+import { cn } from '@/lib/utils';
+import { expandUriTemplate, getTemplateVariables } from '@/lib/uriTemplate';
+import { CompletionInput } from './CompletionInput';
+import { Braces, FileText, Loader2, Paperclip, Search } from 'lucide-react';
+
+interface ResourcePickerProps {
+  selected: MCPResource[];
+  onSelect: (resource: MCPResource) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const isSameResource = (a: MCPResource, b: MCPResource) =>
+  a.serverId === b.serverId && a.uri === b.uri;
+
+export function ResourcePicker({ selected, onSelect, disabled, className }: ResourcePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [resources, setResources] = useState<MCPResource[]>([]);
+  const [templates, setTemplates] = useState<MCPResourceTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeTemplate, setActiveTemplate] = useState<MCPResourceTemplate | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+
+  // Refresh the list every time the picker opens - servers come and go
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    Promise.all([api.getMCPResources(), api.getMCPResourceTemplates()])
+      .then(([loadedResources, loadedTemplates]) => {
+        setResources(loadedResources);
+        setTemplates(loadedTemplates);
+      })
+      .catch((error) => {
+        console.error('❌ [ResourcePicker] Failed to load MCP resources:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load MCP resources',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const query = searchQuery.toLowerCase();
+  const filteredResources = resources.filter(resource =>
+    query === '' ||
+    resource.uri.toLowerCase().includes(query) ||
+    resource.name?.toLowerCase().includes(query) ||
+    resource.description?.toLowerCase().includes(query)
+  );
+
+  const filteredTemplates = templates.filter(template =>
+    query === '' ||
+    template.uriTemplate.toLowerCase().includes(query) ||
+    template.name?.toLowerCase().includes(query) ||
+    template.description?.toLowerCase().includes(query)
+  );
+
+  const templateVariables = activeTemplate ? getTemplateVariables(activeTemplate.uriTemplate) : [];
+  const expandedUri = activeTemplate ? expandUriTemplate(activeTemplate.uriTemplate, templateValues) : '';
+  const templateIncomplete = templateVariables.some(name => !templateValues[name]?.trim());
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setSearchQuery('');
+      setActiveTemplate(null);
+    }
+  };
+
+  const handleSelect = (resource: MCPResource) => {
+    onSelect(resource);
+    handleOpenChange(false);
+  };
+
+  const handleTemplateSelect = (template: MCPResourceTemplate) => {
+    setActiveTemplate(template);
+    setTemplateValues({});
+  };
+
+  const handleTemplateSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!activeTemplate || templateIncomplete) return;
+
+    handleSelect({
+      serverId: activeTemplate.serverId,
+      uri: expandedUri,
+      name: activeTemplate.name ? `${activeTemplate.name} (${expandedUri})` : expandedUri,
+      description: activeTemplate.description,
+      mimeType: activeTemplate.mimeType,
+    });
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className={cn('h-8 w-8 text-gray-400 hover:text-white hover:bg-gray-700', className)}
+        disabled={disabled}
+        onClick={() => setOpen(true)}
+        aria-label="Attach MCP resource"
+      >
+        <Paperclip className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Attach a resource</DialogTitle>
+            <DialogDescription>
+              The resource contents will be sent as context with your next message.
+            </DialogDescription>
+          </DialogHeader>
+
+          {activeTemplate ? (
+            <form onSubmit={handleTemplateSubmit} className="space-y-3">
+              <div>
+                <div className="text-sm font-medium">{activeTemplate.name || activeTemplate.uriTemplate}</div>
+                <div className="text-xs text-gray-500 break-all">
+                  [{activeTemplate.serverId}] {activeTemplate.uriTemplate}
+                </div>
+              </div>
+
+              {templateVariables.map((name, index) => (
+                <div key={name} className="space-y-1">
+                  <Label htmlFor={`template-var-${name}`} className="text-xs">
+                    {name}
+                  </Label>
+                  <CompletionInput
+                    id={`template-var-${name}`}
+                    serverId={activeTemplate.serverId}
+                    completionRef={{ type: 'ref/resource', uri: activeTemplate.uriTemplate }}
+                    argumentName={name}
+                    contextArguments={templateValues}
+                    value={templateValues[name] || ''}
+                    onChange={(value) => setTemplateValues(prev => ({ ...prev, [name]: value }))}
+                    autoFocus={index === 0}
+                  />
+                </div>
+              ))}
+
+              <div className="text-xs text-gray-400 break-all">{expandedUri}</div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setActiveTemplate(null)}>
+                  Back
+                </Button>
+                <Button type="submit" size="sm" disabled={templateIncomplete}>
+                  Attach
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  type="text"
+                  placeholder="Search resources..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+
+              <div className="max-h-96 overflow-y-auto space-y-1">
+                {loading ? (
+                  <div className="flex items-center justify-center p-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </div>
+                ) : filteredResources.length === 0 && filteredTemplates.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center p-8">
+                    {resources.length === 0 && templates.length === 0
+                      ? 'No MCP server exposes resources'
+                      : 'No matching resources'}
+                  </p>
+                ) : (
+                  <>
+                    {filteredResources.map(resource => {
+                      const attached = selected.some(item => isSameResource(item, resource));
+                      return (
+                        <button
+                          key={`${resource.serverId}:${resource.uri}`}
+                          type="button"
+                          onClick={() => handleSelect(resource)}
+                          disabled={attached}
+                          className="w-full flex items-start gap-3 rounded-md p-2 text-left hover:bg-gray-800 disabled:opacity-50"
+                        >
+                          <FileText className="h-4 w-4 mt-0.5 shrink-0 text-gray-400" />
+                          <div className="min-w-0">
+                            <div className="text-sm font-medium truncate">{resource.name || resource.uri}</div>
+                            <div className="text-xs text-gray-500 truncate">
+                              [{resource.serverId}] {resource.uri}
+                            </div>
+                            {resource.description && (
+                              <div className="text-xs text-gray-400 line-clamp-2">{resource.description}</div>
+                            )}
+                          </div>
+                        </button>
+                      );
+                    })}
+
+                    {filteredTemplates.map(template => (
+                      <button
+                        key={`${template.serverId}:${template.uriTemplate}`}
+                        type="button"
+                        onClick={() => handleTemplateSelect(template)}
+                        className="w-full flex items-start gap-3 rounded-md p-2 text-left hover:bg-gray-800"
+                      >
+                        <Braces className="h-4 w-4 mt-0.5 shrink-0 text-gray-400" />
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium truncate">{template.name || template.uriTemplate}</div>
+                          <div className="text-xs text-gray-500 truncate">
+                            [{template.serverId}] {template.uriTemplate}
+                          </div>
+                          {template.description && (
+                            <div className="text-xs text-gray-400 line-clamp-2">{template.description}</div>
+                          )}
+                        </div>
+                      </button>
+                    ))}
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
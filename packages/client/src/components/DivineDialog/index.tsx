@@ -7,7 +7,7 @@ import { MessageList } from './MessageList';
 import { ModelSelector } from './ModelSelector';
 import { ArtifactPanel } from '@/components/Artifacts';
 import { Button } from '@/components/ui/button';
-import { Message, ThinkingData } from '@olympian/shared';
+import { Message, ThinkingData, MCPResource } from '@olympian/shared';
 import { toast } from '@/hooks/useToast';
 import { Plus } from 'lucide-react';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
@@ -34,8 +34,13 @@ export function DivineDialog() {
     messages,
     selectedModel,
     selectedVisionModel,
+    selectedPersonaId,
     fetchModels,
     addMessage,
+    updateMessage,
+    setMessages,
+    selectBranch,
+    fetchMessages,
     setCurrentConversation,
     createConversation,
     modelCapabilities,
@@ -51,7 +56,10 @@ export function DivineDialog() {
   } = useArtifactStore();
   
   const [isThinking, setIsThinking] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
   const [hasImages, setHasImages] = useState(false);
+  // Id of the request being generated, so the Stop button can cancel it
+  const activeRequestId = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Track completed typewriter messages using a ref - persists across remounts
@@ -60,6 +68,10 @@ export function DivineDialog() {
   // Track finalized messages - messages that should never show typewriter again
   const finalizedMessages = useRef<Set<string>>(new Set());
 
+  // Answers generated in this session that already carry their database _id
+  // but should still play the typewriter once
+  const freshMessageIds = useRef<Set<string>>(new Set());
+
   // Check if a message has completed typewriter effect
   const hasCompletedTypewriter = (message: Message, index?: number): boolean => {
     const messageId = getMessageIdentifier(message, index);
@@ -91,6 +103,7 @@ export function DivineDialog() {
   const onTypewriterComplete = (message: Message, index?: number) => {
     const messageId = getMessageIdentifier(message, index);
     completedTypewriterMessages.current.add(messageId);
+    freshMessageIds.current.delete(messageId);
     
     // Also mark as finalized when typewriter completes
     markMessageFinalized(message, index);
@@ -135,7 +148,7 @@ export function DivineDialog() {
   // Mark existing messages as finalized when messages change (conversation load/switch)
   useEffect(() => {
     messages.forEach((message, index) => {
-      if (message.role === 'assistant' && message._id) {
+      if (message.role === 'assistant' && message._id && !freshMessageIds.current.has(message._id.toString())) {
         // Only mark messages with _id as finalized (existing messages from database)
         // Messages without _id are freshly generated and should show typewriter
         if (!isMessageFinalized(message, index)) {
@@ -164,7 +177,7 @@ export function DivineDialog() {
     return !capabilities.vision && !capabilities.tools && !capabilities.reasoning;
   };
 
-  const handleSendMessage = async (content: string, images?: string[]) => {
+  const handleSendMessage = async (content: string, images?: string[], resources?: MCPResource[]) => {
     if (!selectedModel) {
       toast({
         title: 'Error',
@@ -183,12 +196,17 @@ export function DivineDialog() {
       role: 'user',
       content,
       images,
+      metadata: resources ? { attachedResources: resources } : undefined,
       createdAt: new Date(),
     };
     addMessage(userMessage);
+    const resourceRefs = resources?.map(({ serverId, uri }) => ({ serverId, uri }));
 
     // Set loading state
     setIsThinking(true);
+    setIsGenerating(true);
+    const requestId = `req_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+    activeRequestId.current = requestId;
 
     try {
       // ENHANCED: Check if model is basic for streaming capability
@@ -205,6 +223,7 @@ export function DivineDialog() {
         let streamedContent = '';
         let receivedThinkingData: ThinkingData | undefined = undefined;
         let conversationIdFromStream: string | undefined = undefined;
+        let offeredTools: string[] | undefined = undefined;
 
         await api.sendMessageStreaming(
           {
@@ -213,6 +232,9 @@ export function DivineDialog() {
             visionModel: selectedVisionModel || undefined,
             conversationId: currentConversation?._id,
             images,
+            resources: resourceRefs,
+            requestId,
+            personaId: currentConversation ? undefined : selectedPersonaId || undefined,
           },
           (event: StreamingEvent) => {
             console.log(`🌊 [DivineDialog] Streaming event:`, event);
@@ -259,6 +281,11 @@ export function DivineDialog() {
                 }
                 break;
 
+              case 'tools_selection':
+                console.log(`🔧 [DivineDialog] ${event.toolMessage || 'Tools selected'}:`, event.selectedTools);
+                offeredTools = event.selectedTools?.map(tool => tool.name);
+                break;
+
               case 'artifact_created':
                 console.log('🎨 [DivineDialog] Artifact created during streaming:', {
                   id: event.artifactId,
@@ -280,8 +307,18 @@ export function DivineDialog() {
                   conversationId: event.conversationId
                 });
 
+                // Give the optimistic user message its stored id, so it can be edited
+                if (event.userMessageId) {
+                  updateMessage(userMessage, { _id: event.userMessageId });
+                }
+                if (event.messageId) {
+                  freshMessageIds.current.add(event.messageId);
+                }
+
                 // ENHANCED: Create assistant message with thinking data
                 const assistantMessage: Message = {
+                  _id: event.messageId,
+                  parentId: event.userMessageId,
                   conversationId: event.conversationId || conversationIdFromStream || currentConversation?._id || '',
                   role: 'assistant',
                   content: event.message || streamedContent,
@@ -289,6 +326,7 @@ export function DivineDialog() {
                     ...event.metadata,
                     // Ensure thinking data is properly included
                     thinking: receivedThinkingData || event.metadata?.thinking,
+                    offeredTools: event.metadata?.offeredTools || offeredTools,
                   },
                   createdAt: new Date(),
                 };
@@ -299,7 +337,10 @@ export function DivineDialog() {
                   messageLength: assistantMessage.content.length
                 });
 
-                addMessage(assistantMessage);
+                // A generation stopped before any text leaves no answer
+                if (assistantMessage.content || !assistantMessage.metadata?.cancelled) {
+                  addMessage(assistantMessage);
+                }
 
                 // Handle artifacts if created
                 if (event.metadata?.artifacts && event.metadata.artifacts.length > 0) {
@@ -340,6 +381,9 @@ export function DivineDialog() {
           visionModel: selectedVisionModel || undefined,
           conversationId: currentConversation?._id,
           images,
+          resources: resourceRefs,
+          requestId,
+          personaId: currentConversation ? undefined : selectedPersonaId || undefined,
         });
 
         console.log('🎯 [DivineDialog] HTTP response:', {
@@ -358,8 +402,17 @@ export function DivineDialog() {
           setCurrentConversation(response.conversation);
         }
 
+        if (response.userMessageId) {
+          updateMessage(userMessage, { _id: response.userMessageId });
+        }
+        if (response.messageId) {
+          freshMessageIds.current.add(response.messageId);
+        }
+
         // ENHANCED: Create assistant message with thinking data
         const assistantMessage: Message = {
+          _id: response.messageId,
+          parentId: response.userMessageId,
           conversationId: response.conversationId,
           role: 'assistant',
           content: response.message,
@@ -377,7 +430,10 @@ export function DivineDialog() {
           messageLength: assistantMessage.content.length
         });
 
-        addMessage(assistantMessage);
+        // A generation stopped before any text leaves no answer
+        if (assistantMessage.content || !assistantMessage.metadata?.cancelled) {
+          addMessage(assistantMessage);
+        }
 
         // Handle artifact if created by server - use proper server-first approach
         if (response.artifact?.id) {
@@ -444,6 +500,106 @@ export function DivineDialog() {
       }
       
       setIsThinking(false);
+    } finally {
+      activeRequestId.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  // Run a regenerate or edit request. The messages after the branch point are
+  // hidden while it runs, then the new active branch is loaded from the server.
+  const runBranchRequest = async (
+    keptMessages: Message[],
+    request: (requestId: string) => Promise<{ conversationId: string; messageId?: string }>
+  ) => {
+    if (!selectedModel || !currentConversation?._id) {
+      toast({
+        title: 'Error',
+        description: 'Please select a model first',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setMessages(keptMessages);
+    setIsThinking(true);
+    setIsGenerating(true);
+    const requestId = `req_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+    activeRequestId.current = requestId;
+
+    try {
+      const response = await request(requestId);
+      if (response.messageId) {
+        freshMessageIds.current.add(response.messageId);
+      }
+      setIsThinking(false);
+      await fetchMessages(response.conversationId);
+    } catch (error) {
+      console.error('❌ [DivineDialog] Branch request failed:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to generate a new answer',
+        variant: 'destructive',
+      });
+      setIsThinking(false);
+      await fetchMessages(currentConversation._id);
+    } finally {
+      activeRequestId.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  // Answer the prompt of an assistant message again, as a new branch
+  const handleRegenerate = (message: Message, index: number) => {
+    const conversationId = currentConversation?._id;
+    const messageId = message._id;
+    if (!messageId || !conversationId || !selectedModel) return;
+
+    return runBranchRequest(messages.slice(0, index), requestId => api.regenerateMessage({
+      conversationId,
+      messageId,
+      model: selectedModel,
+      visionModel: selectedVisionModel || undefined,
+      requestId,
+    }));
+  };
+
+  // Send an edited user message as a new branch beside the original
+  const handleEdit = (message: Message, index: number, content: string) => {
+    const conversationId = currentConversation?._id;
+    const messageId = message._id;
+    if (!messageId || !conversationId || !selectedModel) return;
+
+    const editedMessage: Message = { ...message, _id: undefined, branch: undefined, content, createdAt: new Date() };
+    return runBranchRequest([...messages.slice(0, index), editedMessage], requestId => api.editMessage({
+      conversationId,
+      messageId,
+      message: content,
+      model: selectedModel,
+      visionModel: selectedVisionModel || undefined,
+      requestId,
+    }));
+  };
+
+  // Stop the current generation; its request resolves with the partial answer
+  const handleCancel = async () => {
+    const requestId = activeRequestId.current;
+    if (!requestId) return;
+
+    try {
+      if (!await api.cancelGeneration(requestId)) {
+        toast({
+          title: 'Nothing to stop',
+          description: 'The response had already finished',
+        });
+      }
+    } catch (error) {
+      console.error('❌ [DivineDialog] Failed to cancel generation:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to stop the response',
+        variant: 'destructive',
+      });
     }
   };
 
@@ -511,6 +667,10 @@ export function DivineDialog() {
           hasCompletedTypewriter={hasCompletedTypewriter}
           isMessageFinalized={isMessageFinalized}
           onTypewriterComplete={onTypewriterComplete}
+          actionsDisabled={isGenerating}
+          onRegenerate={handleRegenerate}
+          onEdit={handleEdit}
+          onSelectBranch={selectBranch}
         />
         <div ref={messagesEndRef} />
       </div>
@@ -519,9 +679,9 @@ export function DivineDialog() {
       <div className="border-t border-gray-800 p-4 flex-shrink-0 bg-gray-900/80 backdrop-blur-sm">
         <ChatInput
           onSendMessage={handleSendMessage}
-          onCancel={() => {}}
+          onCancel={handleCancel}
           isDisabled={isThinking}
-          isGenerating={false}
+          isGenerating={isGenerating}
         />
       </div>
 
@@ -1,14 +1,16 @@
 import { useState, useEffect } from 'react';
 import { HILRequest } from "@/types/mcp";
+import { HILApprovalScope } from '@olympian/shared';
 import { Button } from '../ui/button';
+import { Textarea } from '../ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
 import { Alert, AlertDescription } from '../ui/alert';
-import { ShieldAlert, CheckCircle, XCircle } from 'lucide-react';
+import { ShieldAlert, CheckCircle, XCircle, MessageSquare, ShieldCheck, Pencil } from 'lucide-react';
 
 
 interface HILConfirmationModalProps {
   request: HILRequest | null;
-  onApprove: (id: string) => void;
+  onApprove: (id: string, scope?: HILApprovalScope, args?: Record<string, unknown>) => void;
   onReject: (id: string) => void;
 }
 
@@ -18,28 +20,49 @@ export function HILConfirmationModal({
   onReject 
 }: HILConfirmationModalProps) {
   const [timeLeft, setTimeLeft] = useState(30);
+  const [isEditing, setIsEditing] = useState(false);
+  const [argumentsText, setArgumentsText] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
   
   useEffect(() => {
-    if (!request) {
-      setTimeLeft(30);
-      return;
-    }
+    setIsEditing(false);
+    setArgumentsText(request ? JSON.stringify(request.tool.arguments, null, 2) : '');
+    setParseError(null);
+  }, [request]);
+  
+  // The server rejects the request when its timeout passes and closes the prompt
+  useEffect(() => {
+    if (!request) return;
     
-    const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          onReject(request.id);
-          return 30;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    const deadline = request.timestamp + request.timeout;
+    const update = () => setTimeLeft(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    update();
+    const timer = setInterval(update, 1000);
     
     return () => clearInterval(timer);
-  }, [request, onReject]);
+  }, [request]);
   
   if (!request) return null;
   
+  // Edited arguments are sent along with the approval and checked against the tool schema
+  const approve = (scope?: HILApprovalScope) => {
+    if (!isEditing) {
+      onApprove(request.id, scope);
+      return;
+    }
+    
+    try {
+      const parsed = JSON.parse(argumentsText);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        setParseError('Arguments must be a JSON object');
+        return;
+      }
+      onApprove(request.id, scope, parsed);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  };
+  
   return (
     <Dialog open={!!request}>
       <DialogContent className="max-w-2xl">
@@ -65,12 +88,39 @@ export function HILConfirmationModal({
             <div className="text-sm text-muted-foreground mb-2">
               Server: {request.tool.serverId}
             </div>
-            <div className="font-mono text-sm bg-background p-3 rounded">
-              <pre>{JSON.stringify(request.tool.arguments, null, 2)}</pre>
-            </div>
+            {isEditing ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={argumentsText}
+                  onChange={(e) => {
+                    setArgumentsText(e.target.value);
+                    setParseError(null);
+                  }}
+                  rows={8}
+                  className="font-mono text-sm"
+                />
+                {parseError && (
+                  <div className="text-sm text-destructive">{parseError}</div>
+                )}
+              </div>
+            ) : (
+              <div className="font-mono text-sm bg-background p-3 rounded">
+                <pre>{JSON.stringify(request.tool.arguments, null, 2)}</pre>
+              </div>
+            )}
           </div>
           
-          <div className="flex justify-end gap-3">
+          <div className="flex flex-wrap justify-end gap-3">
+            {!isEditing && !request.alwaysAsk && (
+              <Button
+                variant="ghost"
+                onClick={() => setIsEditing(true)}
+                className="flex items-center gap-2 mr-auto"
+              >
+                <Pencil className="h-4 w-4" />
+                Edit arguments
+              </Button>
+            )}
             <Button
               variant="destructive"
               onClick={() => onReject(request.id)}
@@ -79,9 +129,29 @@ export function HILConfirmationModal({
               <XCircle className="h-4 w-4" />
               Reject
             </Button>
+            {request.conversationId && !request.alwaysAsk && (
+              <Button
+                variant="outline"
+                onClick={() => approve('conversation')}
+                className="flex items-center gap-2"
+              >
+                <MessageSquare className="h-4 w-4" />
+                Allow for this conversation
+              </Button>
+            )}
+            {!request.alwaysAsk && (
+              <Button
+                variant="outline"
+                onClick={() => approve('always')}
+                className="flex items-center gap-2"
+              >
+                <ShieldCheck className="h-4 w-4" />
+                Always allow
+              </Button>
+            )}
             <Button
               variant="default"
-              onClick={() => onApprove(request.id)}
+              onClick={() => approve()}
               className="flex items-center gap-2"
             >
               <CheckCircle className="h-4 w-4" />
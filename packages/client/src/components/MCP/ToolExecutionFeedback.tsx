@@ -1,21 +1,31 @@
 import { useEffect, useState } from 'react';
-import { CheckCircle, XCircle, Loader2, Clock, Copy } from 'lucide-react';
+import { CheckCircle, XCircle, Loader2, Clock, Copy, Ban, StopCircle } from 'lucide-react';
 import { cn } from '../../lib/utils';
 import { Button } from '../ui/button';
+import { useWebSocket } from '../../hooks/useWebSocket';
 
 interface ToolExecution {
   id: string;
   toolName: string;
   namespace: string;
-  status: 'executing' | 'success' | 'error';
+  status: 'executing' | 'cancelling' | 'success' | 'error' | 'cancelled';
   result?: any;
   error?: string;
   timestamp: Date;
 }
 
+const statusLabels: Record<ToolExecution['status'], string> = {
+  executing: 'Executing...',
+  cancelling: 'Cancelling...',
+  success: 'Completed',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
 export function ToolExecutionFeedback() {
   const [executions, setExecutions] = useState<ToolExecution[]>([]);
   const [showHistory, setShowHistory] = useState(false);
+  const { emit, isConnected } = useWebSocket();
 
   useEffect(() => {
     const handleExecuting = (event: CustomEvent) => {
@@ -37,9 +47,10 @@ export function ToolExecutionFeedback() {
     };
 
     const handleError = (event: CustomEvent) => {
-      const { id, error } = event.detail;
+      const { id, error, errorType } = event.detail;
+      const status = errorType === 'CANCELLED' ? 'cancelled' : 'error';
       setExecutions(prev => prev.map(e => 
-        e.id === id ? { ...e, status: 'error', error } : e
+        e.id === id ? { ...e, status, error } : e
       ));
     };
 
@@ -58,6 +69,13 @@ export function ToolExecutionFeedback() {
     navigator.clipboard.writeText(text);
   };
 
+  const cancelExecution = (id: string) => {
+    emit('tool:cancel', { toolCallId: id });
+    setExecutions(prev => prev.map(e =>
+      e.id === id && e.status === 'executing' ? { ...e, status: 'cancelling' } : e
+    ));
+  };
+
   const latestExecution = executions[0];
 
   return (
@@ -65,11 +83,12 @@ export function ToolExecutionFeedback() {
       {latestExecution && (
         <div className={cn(
           "fixed bottom-4 right-4 p-4 rounded-lg shadow-lg max-w-md",
-          latestExecution.status === 'executing' ? "bg-blue-900" :
-          latestExecution.status === 'success' ? "bg-green-900" : "bg-red-900"
+          latestExecution.status === 'executing' || latestExecution.status === 'cancelling' ? "bg-blue-900" :
+          latestExecution.status === 'success' ? "bg-green-900" :
+          latestExecution.status === 'cancelled' ? "bg-gray-800" : "bg-red-900"
         )}>
           <div className="flex items-center gap-3">
-            {latestExecution.status === 'executing' && (
+            {(latestExecution.status === 'executing' || latestExecution.status === 'cancelling') && (
               <Loader2 className="w-5 h-5 animate-spin text-blue-400" />
             )}
             {latestExecution.status === 'success' && (
@@ -78,15 +97,29 @@ export function ToolExecutionFeedback() {
             {latestExecution.status === 'error' && (
               <XCircle className="w-5 h-5 text-red-400" />
             )}
+            {latestExecution.status === 'cancelled' && (
+              <Ban className="w-5 h-5 text-gray-400" />
+            )}
             <div className="flex-1">
               <p className="text-sm font-medium text-white">
                 {latestExecution.namespace}.{latestExecution.toolName}
               </p>
               <p className="text-xs text-gray-300">
-                {latestExecution.status === 'executing' ? 'Executing...' :
-                 latestExecution.status === 'success' ? 'Completed' : 'Failed'}
+                {statusLabels[latestExecution.status]}
               </p>
             </div>
+            {(latestExecution.status === 'executing' || latestExecution.status === 'cancelling') && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => cancelExecution(latestExecution.id)}
+                disabled={latestExecution.status === 'cancelling' || !isConnected}
+                className="text-gray-300 hover:text-white"
+              >
+                <StopCircle className="w-4 h-4 mr-1" />
+                Abort
+              </Button>
+            )}
             <button
               onClick={() => setShowHistory(!showHistory)}
               className="text-gray-400 hover:text-white"
@@ -107,14 +140,30 @@ export function ToolExecutionFeedback() {
                   <span className="text-xs text-gray-400">
                     {exec.namespace}.{exec.toolName}
                   </span>
-                  <span className={cn(
-                    "text-xs",
-                    exec.status === 'success' ? "text-green-400" :
-                    exec.status === 'error' ? "text-red-400" : "text-blue-400"
-                  )}>
-                    {exec.status}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className={cn(
+                      "text-xs",
+                      exec.status === 'success' ? "text-green-400" :
+                      exec.status === 'error' ? "text-red-400" :
+                      exec.status === 'cancelled' ? "text-gray-400" : "text-blue-400"
+                    )}>
+                      {exec.status}
+                    </span>
+                    {exec.status === 'executing' && (
+                      <button
+                        onClick={() => cancelExecution(exec.id)}
+                        disabled={!isConnected}
+                        className="text-gray-400 hover:text-white"
+                        aria-label="Abort tool call"
+                      >
+                        <StopCircle className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
                 </div>
+                {exec.error && exec.status !== 'cancelled' && (
+                  <p className="mt-1 text-xs text-red-300 break-words">{exec.error}</p>
+                )}
                 {exec.result && (
                   <Button
                     size="sm"
@@ -1,16 +1,115 @@
 import { useState } from 'react';
 import { useTools } from '@/hooks/useTools';
+import { useChatStore } from '@/stores/useChatStore';
+import { api } from '@/services/api';
+import { toast } from '@/hooks/useToast';
 import { Card, CardHeader, CardTitle, CardContent } from '../ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Badge } from '../ui/badge';
-import { Loader2, Search, Server, Wrench } from 'lucide-react';
+import { Layers, Loader2, Plus, Search, Server, Trash2, Wrench } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 export function ToolSelectionPanel() {
-  const { servers, loading, enableTool, disableTool, toggleServer } = useTools();
+  const { servers, toolSets, activeToolSetId, loading, refresh, enableTool, disableTool, toggleServer } = useTools();
+  const { currentConversation } = useChatStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [expandedServers, setExpandedServers] = useState<Set<string>>(new Set());
+  const [newToolSetName, setNewToolSetName] = useState('');
+
+  const conversationId = currentConversation?._id?.toString();
+
+  // Show the tool set the open conversation uses without making it the active set.
+  // Toggles on a set that is not active are saved to that set only.
+  const conversationToolSet = toolSets.find(set => set._id === currentConversation?.toolSetId);
+  const shownToolSetId = conversationToolSet?._id ?? activeToolSetId;
+  const inactiveToolSet = conversationToolSet && conversationToolSet._id !== activeToolSetId ? conversationToolSet : undefined;
+
+  const isToolEnabled = (serverId: string, tool: { id: string; enabled: boolean }) =>
+    inactiveToolSet ? inactiveToolSet.tools.includes(serverId + '.' + tool.id) : tool.enabled;
+
+  const updateInactiveToolSet = async (tools: string[]) => {
+    if (!inactiveToolSet?._id) return;
+
+    try {
+      await api.updateToolSet(inactiveToolSet._id, { tools });
+      refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update tool set',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // With a conversation open this picks its tool set; otherwise the active set
+  const handleToolSetChange = async (toolSetId: string) => {
+    try {
+      if (conversationId) {
+        await api.setConversationToolSet(conversationId, toolSetId);
+        useChatStore.setState(state => ({
+          currentConversation: state.currentConversation && { ...state.currentConversation, toolSetId },
+        }));
+      } else {
+        await api.activateToolSet(toolSetId);
+      }
+      refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to switch tool set',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCreateToolSet = async () => {
+    const name = newToolSetName.trim();
+    if (!name) return;
+
+    try {
+      // Starts from the shown selection
+      const toolSet = await api.createToolSet({ name, tools: inactiveToolSet?.tools });
+      setNewToolSetName('');
+      if (toolSet._id) {
+        await handleToolSetChange(toolSet._id);
+      }
+      toast({
+        title: 'Success',
+        description: `Tool set "${name}" saved`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save tool set. Names must be unique.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeleteToolSet = async () => {
+    if (!shownToolSetId) return;
+
+    try {
+      await api.deleteToolSet(shownToolSetId);
+      refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete tool set',
+        variant: 'destructive',
+      });
+    }
+  };
 
   const toggleServerExpansion = (serverId: string) => {
     const newExpanded = new Set(expandedServers);
@@ -24,13 +123,28 @@ export function ToolSelectionPanel() {
 
   const handleToolToggle = (serverId: string, toolId: string, enabled: boolean) => {
     const fullToolId = serverId + '.' + toolId;
-    if (enabled) {
+    if (inactiveToolSet) {
+      const tools = inactiveToolSet.tools.filter(id => id !== fullToolId);
+      updateInactiveToolSet(enabled ? [...tools, fullToolId] : tools);
+    } else if (enabled) {
       enableTool(fullToolId);
     } else {
       disableTool(fullToolId);
     }
   };
 
+  const handleServerToggle = (serverId: string, enabled: boolean) => {
+    if (!inactiveToolSet) {
+      toggleServer(serverId, enabled);
+      return;
+    }
+
+    const prefix = serverId + '.';
+    const tools = inactiveToolSet.tools.filter(id => !id.startsWith(prefix));
+    const serverTools = servers.find(server => server.id === serverId)?.tools.map(tool => prefix + tool.id) ?? [];
+    updateInactiveToolSet(enabled ? [...tools, ...serverTools] : tools);
+  };
+
   const filteredServers = servers.map(server => ({
     ...server,
     tools: server.tools.filter(tool => 
@@ -50,6 +164,46 @@ export function ToolSelectionPanel() {
 
   return (
     <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Layers className="h-4 w-4 text-muted-foreground" />
+          <Select value={shownToolSetId ?? undefined} onValueChange={handleToolSetChange}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select a tool set" />
+            </SelectTrigger>
+            <SelectContent>
+              {toolSets.map(set => (
+                <SelectItem key={set._id} value={set._id!}>
+                  {set.name} ({set.tools.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleDeleteToolSet}
+            disabled={!shownToolSetId || toolSets.length <= 1}
+            title="Delete tool set"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="text"
+            placeholder="Save current selection as..."
+            value={newToolSetName}
+            onChange={(e) => setNewToolSetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateToolSet()}
+          />
+          <Button variant="outline" onClick={handleCreateToolSet} disabled={!newToolSetName.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Save
+          </Button>
+        </div>
+      </div>
+
       <div className="relative">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
@@ -78,8 +232,8 @@ export function ToolSelectionPanel() {
                   <Badge variant="outline">{server.tools.length} tools</Badge>
                 </div>
                 <Checkbox
-                  checked={server.tools.every(t => t.enabled)}
-                  onCheckedChange={(checked: boolean) => toggleServer(server.id, !!checked)}
+                  checked={server.tools.every(t => isToolEnabled(server.id, t))}
+                  onCheckedChange={(checked: boolean) => handleServerToggle(server.id, !!checked)}
                   onClick={(e: React.MouseEvent) => e.stopPropagation()}
                 />
               </div>
@@ -93,7 +247,7 @@ export function ToolSelectionPanel() {
                       key={tool.id}
                       className={cn(
                         "flex items-center justify-between p-3 rounded-lg border",
-                        tool.enabled ? "bg-secondary/20" : "bg-muted/20"
+                        isToolEnabled(server.id, tool) ? "bg-secondary/20" : "bg-muted/20"
                       )}
                     >
                       <div className="flex items-center gap-3 flex-1">
@@ -104,7 +258,7 @@ export function ToolSelectionPanel() {
                         </div>
                       </div>
                       <Checkbox
-                        checked={tool.enabled}
+                        checked={isToolEnabled(server.id, tool)}
                         onCheckedChange={(checked: boolean) => handleToolToggle(server.id, tool.id, !!checked)}
                       />
                     </div>
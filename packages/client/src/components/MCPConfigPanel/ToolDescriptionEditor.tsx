@@ -22,6 +22,12 @@ interface ToolDescriptionEditorProps {  overrides: Record<string, any>;
     setEditingTool(null);
   };
 
+  // Parameters from the tool's input schema, for per-parameter descriptions
+  const getParameterNames = (toolKey: string): string[] => {
+    const tool = availableTools.find(t => `${t.serverId}.${t.name}` === toolKey);
+    return Object.keys(tool?.inputSchema?.properties || {});
+  };
+
   const handleDeleteTool = (toolName: string) => {
     const newOverrides = { ...overrides };
     delete newOverrides[toolName];
@@ -106,7 +112,7 @@ interface ToolDescriptionEditorProps {  overrides: Record<string, any>;
                 id="new-tool-name"
                 value={newTool.name}
                 onChange={(e) => setNewTool({ ...newTool, name: e.target.value })}
-                placeholder="e.g., filesystem_read"
+                placeholder="e.g., github.search_repositories"
               />
             </div>
             <div>
@@ -213,11 +219,24 @@ interface ToolDescriptionEditorProps {  overrides: Record<string, any>;
               <ToolEditForm
                 toolName={toolName}
                 data={data}
+                parameterNames={getParameterNames(toolName)}
                 onSave={(newData) => handleSaveTool(toolName, newData)}
                 onCancel={() => setEditingTool(null)}
               />
             ) : (
               <div className="space-y-2">
+                {data.parameterDescriptions && Object.keys(data.parameterDescriptions).length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium mb-1">Parameters:</p>
+                    <div className="space-y-1">
+                      {Object.entries(data.parameterDescriptions as Record<string, string>).map(([param, description]) => (
+                        <p key={param} className="text-sm text-muted-foreground">
+                          <span className="font-mono">{param}</span>: {description}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 {data.examples && data.examples.length > 0 && (
                   <div>
                     <p className="text-sm font-medium mb-1">Examples:</p>
@@ -242,18 +261,23 @@ interface ToolDescriptionEditorProps {  overrides: Record<string, any>;
 function ToolEditForm({ 
   toolName, 
   data, 
+  parameterNames,
   onSave, 
   onCancel 
 }: { 
   toolName: string;
   data: any;
+  parameterNames: string[];
   onSave: (data: any) => void;
   onCancel: () => void;
 }) {
   const [formData, setFormData] = useState({
     description: data.description || '',
-    examples: data.examples || [''],
+    parameterDescriptions: (data.parameterDescriptions || {}) as Record<string, string>,
+    examples: data.examples?.length ? data.examples : [''],
   });
+  // Keep descriptions for parameters the schema no longer lists (or when the server is offline)
+  const parameters = Array.from(new Set([...parameterNames, ...Object.keys(formData.parameterDescriptions)]));
 
   return (
     <div className="space-y-4">
@@ -266,6 +290,24 @@ function ToolEditForm({
           rows={3}
         />
       </div>
+      {parameters.length > 0 && (
+        <div>
+          <Label>Parameter Descriptions</Label>
+          {parameters.map((param) => (
+            <div key={param} className="flex items-center gap-2 mt-2">
+              <span className="w-32 shrink-0 truncate font-mono text-sm">{param}</span>
+              <Input
+                value={formData.parameterDescriptions[param] || ''}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  parameterDescriptions: { ...formData.parameterDescriptions, [param]: e.target.value },
+                })}
+                placeholder="Leave empty to keep the server's description"
+              />
+            </div>
+          ))}
+        </div>
+      )}
       <div>
         <Label>Examples</Label>
         {formData.examples.map((example: string, index: number) => (
@@ -1,9 +1,12 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 import { useMCP } from '@/contexts/MCPContext';
+import { api } from '@/services/api';
+import { toast } from '@/hooks/useToast';
+import { MCPTool, ToolOverride } from '@olympian/shared';
 import { ConfigEditor } from './ConfigEditor';
 import { ToolDescriptionEditor } from './ToolDescriptionEditor';
 import { BackupManager } from './BackupManager';
@@ -13,15 +16,43 @@ import { Save, Download, Upload } from 'lucide-react';
 export function MCPConfigPanel() {
   const { config: mcpConfig } = useMCP();
   const [config, setConfig] = useState<any>(mcpConfig || {});
-  const [toolOverrides, setToolOverrides] = useState<Record<string, any>>({});
-  const [availableTools] = useState<any[]>([]);
+  const [toolOverrides, setToolOverrides] = useState<Record<string, ToolOverride>>({});
+  const [availableTools, setAvailableTools] = useState<MCPTool[]>([]);
   const [hasChanges, setHasChanges] = useState(false);
-  const [isSaving] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   const [activeTab, setActiveTab] = useState('config');
 
+  useEffect(() => {
+    Promise.all([api.getToolOverrides(), api.getAllMCPTools()])
+      .then(([overrides, tools]) => {
+        setToolOverrides(overrides);
+        setAvailableTools(tools);
+      })
+      .catch((error) => console.error('Failed to load tool overrides', error));
+  }, []);
+
   // Sync with MCP context config
   const handleSave = async () => {};
-  const handleSaveToolOverrides = async () => {};
+  const handleSaveToolOverrides = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await api.saveToolOverrides(toolOverrides);
+      setToolOverrides(saved);
+      setHasChanges(false);
+      toast({
+        title: 'Success',
+        description: 'Tool overrides saved',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save tool overrides',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
   const handleExport = () => {
     const exportData = { config, toolOverrides, timestamp: new Date().toISOString() };
     const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
@@ -43,7 +74,10 @@ export function MCPConfigPanel() {
           setConfig(data.config);
           setHasChanges(true);
         }
-        if (data.toolOverrides) setToolOverrides(data.toolOverrides);
+        if (data.toolOverrides) {
+          setToolOverrides(data.toolOverrides);
+          setHasChanges(true);
+        }
       } catch (error) { console.error('Import failed', error); }
     };
     reader.readAsText(file);
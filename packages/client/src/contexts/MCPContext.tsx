@@ -1,5 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import { HILApprovalScope } from '@olympian/shared';
+import { toast } from '@/hooks/useToast';
+import { useChatStore } from '@/stores/useChatStore';
 import { MCPServer, HILRequest, ToolExecution, MCPConfig } from '@/types/mcp';
 
 interface MCPContextType {
@@ -8,7 +11,7 @@ interface MCPContextType {
   executions: ToolExecution[];
   config: MCPConfig;
   isConnected: boolean;
-  approveHIL: (requestId: string) => void;
+  approveHIL: (requestId: string, scope?: HILApprovalScope, args?: Record<string, unknown>) => void;
   rejectHIL: (requestId: string) => void;
   enableTool: (toolId: string) => void;
   disableTool: (toolId: string) => void;
@@ -20,6 +23,7 @@ const MCPContext = createContext<MCPContextType | undefined>(undefined);
 
 export function MCPProvider({ children }: { children: React.ReactNode }) {
   const { socket, isConnected } = useWebSocket();
+  const conversationId = useChatStore(state => state.currentConversation?._id?.toString());
   const [servers, setServers] = useState<MCPServer[]>([]);
   const [hilRequest, setHilRequest] = useState<HILRequest | null>(null);
   const [executions, setExecutions] = useState<ToolExecution[]>([]);
@@ -51,6 +55,15 @@ export function MCPProvider({ children }: { children: React.ReactNode }) {
       }
     };
 
+    // Edited arguments failed validation; the request stays open
+    const handleHILError = (data: { requestId: string; error: string }) => {
+      toast({
+        title: 'Approval failed',
+        description: data.error,
+        variant: 'destructive',
+      });
+    };
+
     // Tool execution events
     const handleToolExecuting = (data: any) => {
       const execution: ToolExecution = {
@@ -72,8 +85,9 @@ export function MCPProvider({ children }: { children: React.ReactNode }) {
     };
 
     const handleToolError = (data: any) => {
+      const status = data.errorType === 'CANCELLED' ? 'cancelled' : 'error';
       setExecutions(prev => prev.map(e => 
-        e.id === data.id ? { ...e, status: 'error', error: data.error } : e
+        e.id === data.id ? { ...e, status, error: data.error } : e
       ));
       window.dispatchEvent(new CustomEvent('tool:error', { detail: data }));
     };
@@ -88,6 +102,7 @@ export function MCPProvider({ children }: { children: React.ReactNode }) {
     socket.on('mcp:status', handleMCPStatus);
     socket.on('hil:request', handleHILRequest);
     socket.on('hil:response', handleHILResponse);
+    socket.on('hil:error', handleHILError);
     socket.on('tool:executing', handleToolExecuting);
     socket.on('tool:result', handleToolResult);
     socket.on('tool:error', handleToolError);
@@ -101,6 +116,7 @@ export function MCPProvider({ children }: { children: React.ReactNode }) {
       socket.off('mcp:status', handleMCPStatus);
       socket.off('hil:request', handleHILRequest);
       socket.off('hil:response', handleHILResponse);
+      socket.off('hil:error', handleHILError);
       socket.off('tool:executing', handleToolExecuting);
       socket.off('tool:result', handleToolResult);
       socket.off('tool:error', handleToolError);
@@ -108,9 +124,16 @@ export function MCPProvider({ children }: { children: React.ReactNode }) {
     };
   }, [socket, hilRequest]);
 
-  const approveHIL = (requestId: string) => {
+  // HIL prompts for a conversation go to the sockets showing it; rejoin after reconnects
+  useEffect(() => {
+    if (socket && isConnected && conversationId) {
+      socket.emit('conversation:join', { conversationId });
+    }
+  }, [socket, isConnected, conversationId]);
+
+  const approveHIL = (requestId: string, scope: HILApprovalScope = 'once', args?: Record<string, unknown>) => {
     if (socket) {
-      socket.emit('hil:approve', { requestId });
+      socket.emit('hil:approve', { requestId, scope, arguments: args });
     }
   };
 
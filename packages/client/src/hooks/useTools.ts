@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { ToolSet } from '@olympian/shared';
 import { useWebSocket } from './useWebSocket';
 
 interface Tool {
@@ -18,13 +19,17 @@ interface MCPServer {
 export function useTools() {
   const { socket } = useWebSocket();
   const [servers, setServers] = useState<MCPServer[]>([]);
+  const [toolSets, setToolSets] = useState<ToolSet[]>([]);
+  const [activeToolSetId, setActiveToolSetId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (!socket) return;
 
-    const handleToolsList = (data: { servers: MCPServer[] }) => {
+    const handleToolsList = (data: { servers: MCPServer[]; toolSets?: ToolSet[]; activeToolSetId?: string | null }) => {
       setServers(data.servers);
+      setToolSets(data.toolSets || []);
+      setActiveToolSetId(data.activeToolSetId ?? null);
       setLoading(false);
       
       // Persist to localStorage
@@ -34,14 +39,28 @@ export function useTools() {
       localStorage.setItem('mcp-tools-enabled', JSON.stringify(enabledTools));
     };
 
+    // Toggles are saved to the active tool set server-side; refetch to stay in sync
+    const handleToolsUpdated = () => {
+      socket.emit('tools:request-list');
+    };
+
     socket.on('tools:list', handleToolsList);
+    socket.on('tools:updated', handleToolsUpdated);
+    socket.on('tools:server:updated', handleToolsUpdated);
     socket.emit('tools:request-list');
 
     return () => {
       socket.off('tools:list', handleToolsList);
+      socket.off('tools:updated', handleToolsUpdated);
+      socket.off('tools:server:updated', handleToolsUpdated);
     };
   }, [socket]);
 
+  const refresh = useCallback(() => {
+    if (!socket) return;
+    socket.emit('tools:request-list');
+  }, [socket]);
+
   const enableTool = useCallback((toolId: string) => {
     if (!socket) return;
     socket.emit('tools:enable', { toolId });
@@ -59,7 +78,10 @@ export function useTools() {
 
   return {
     servers,
+    toolSets,
+    activeToolSetId,
     loading,
+    refresh,
     enableTool,
     disableTool,
     toggleServer
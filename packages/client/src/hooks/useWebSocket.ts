@@ -2,6 +2,7 @@ import { io, Socket } from 'socket.io-client';
 import { create } from 'zustand';
 import { ClientEvents, ServerEvents } from '@olympian/shared';
 import { toast } from './useToast';
+import { getClientId } from '@/lib/clientId';
 
 interface WebSocketStore {
   socket: Socket | null;
@@ -21,6 +22,7 @@ export const useWebSocket = create<WebSocketStore>((set, get) => ({
     const socket = io({
       path: '/socket.io',
       transports: ['websocket'],
+      auth: { clientId: getClientId() },
     });
 
     socket.on('connect', () => {
@@ -0,0 +1,18 @@
+// Identifies this browser tab to the server across socket reconnects, so HIL
+// prompts for its tool calls are routed back to it. Kept per tab in sessionStorage.
+
+const STORAGE_KEY = 'olympian-client-id';
+
+let clientId: string | null = null;
+
+export function getClientId(): string {
+  if (!clientId) {
+    clientId = sessionStorage.getItem(STORAGE_KEY);
+    if (!clientId) {
+      // crypto.randomUUID is unavailable on plain-HTTP deployments
+      clientId = Date.now().toString(36) + Math.random().toString(36).slice(2, 11);
+      sessionStorage.setItem(STORAGE_KEY, clientId);
+    }
+  }
+  return clientId;
+}
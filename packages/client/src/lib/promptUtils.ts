@@ -0,0 +1,54 @@
+import { MCPContent, MCPPrompt, MCPPromptResult } from '@olympian/shared';
+
+/**
+ * Extract the slash command query from the composer text.
+ * Returns null unless the text is a bare "/command" with no whitespace yet.
+ */
+export function getSlashQuery(text: string): string | null {
+  const match = /^\/(\S*)$/.exec(text);
+  return match ? match[1] : null;
+}
+
+/**
+ * Filter prompts by name/description, ranking name prefix matches first
+ */
+export function filterPrompts(prompts: MCPPrompt[], query: string): MCPPrompt[] {
+  const q = query.toLowerCase();
+  if (!q) return prompts;
+
+  const prefix = prompts.filter(p => p.name.toLowerCase().startsWith(q));
+  const rest = prompts.filter(p =>
+    !p.name.toLowerCase().startsWith(q) &&
+    (p.name.toLowerCase().includes(q) || p.description?.toLowerCase().includes(q))
+  );
+  return [...prefix, ...rest];
+}
+
+function renderContent(content: MCPContent): string {
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'resource':
+      return content.text !== undefined
+        ? `<resource uri="${content.uri}">\n${content.text}\n</resource>`
+        : `[resource ${content.uri}]`;
+    case 'resource_link':
+      return `[resource ${content.uri}]`;
+    case 'image':
+      return '[image omitted]';
+  }
+}
+
+/**
+ * Flatten rendered prompt messages into composer text.
+ * User turns are inserted verbatim; assistant turns are labelled so the model
+ * can tell them apart from the user's own words.
+ */
+export function renderPromptMessages(result: MCPPromptResult): string {
+  return result.messages
+    .map(message => {
+      const text = renderContent(message.content);
+      return message.role === 'assistant' ? `Assistant: ${text}` : text;
+    })
+    .join('\n\n');
+}
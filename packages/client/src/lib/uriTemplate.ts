@@ -0,0 +1,48 @@
+// Minimal RFC 6570 level 3 expansion for MCP resource templates.
+// Prefix (:n) and explode (*) modifiers are accepted but ignored.
+
+const EXPRESSION = /\{([+#./;?&]?)([^}]+)\}/g;
+
+function splitVariables(list: string): string[] {
+  return list.split(',').map(name => name.replace(/\*$|:\d+$/, '').trim()).filter(Boolean);
+}
+
+/**
+ * List the variable names referenced by a URI template, in order of appearance
+ */
+export function getTemplateVariables(uriTemplate: string): string[] {
+  const names: string[] = [];
+  for (const match of uriTemplate.matchAll(EXPRESSION)) {
+    for (const name of splitVariables(match[2])) {
+      if (!names.includes(name)) names.push(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Expand a URI template with the given variable values
+ */
+export function expandUriTemplate(uriTemplate: string, values: Record<string, string>): string {
+  return uriTemplate.replace(EXPRESSION, (_, operator: string, list: string) => {
+    // Reserved expansion keeps characters like "/" so paths stay readable
+    const encode = operator === '+' || operator === '#' ? encodeURI : encodeURIComponent;
+    const names = splitVariables(list).filter(name => values[name] !== undefined && values[name] !== '');
+    if (names.length === 0) return '';
+
+    switch (operator) {
+      case '?':
+      case '&':
+        return operator + names.map(name => `${name}=${encode(values[name])}`).join('&');
+      case ';':
+        return names.map(name => `;${name}=${encode(values[name])}`).join('');
+      case '.':
+      case '/':
+        return names.map(name => operator + encode(values[name])).join('');
+      case '#':
+        return '#' + names.map(name => encode(values[name])).join(',');
+      default:
+        return names.map(name => encode(values[name])).join(',');
+    }
+  });
+}
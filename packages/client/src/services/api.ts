@@ -8,8 +8,22 @@ import {
   MCPTool,
   MCPInvokeRequest,
   MCPInvokeResponse,
+  MCPResource,
+  MCPResourceContent,
+  MCPPrompt,
+  MCPPromptResult,
+  MCPResourceTemplate,
+  MCPCompletionRequest,
+  MCPCompletionResponse,
+  ToolOverride,
+  ToolSet,
+  Persona,
+  PersonaExport,
+  PersonaInput,
   Conversation,
+  ConversationMemoryStats,
   Message,
+  MessageMetadata,
   ModelCapability,
   // NEW: Artifact types
   ArtifactDocument,
@@ -24,6 +38,10 @@ import {
   // NEW: Thinking types
   ThinkingData,
 } from '@olympian/shared';
+import { getClientId } from '@/lib/clientId';
+
+// MCP resource attached to an outgoing chat message
+type ResourceReference = Pick<MCPResource, 'serverId' | 'uri'>;
 
 interface ProgressiveUpdate {
   type: 'model_processed' | 'vision_model_found' | 'loading_complete' | 'error' | 'initial_state';
@@ -41,7 +59,7 @@ interface ProgressiveUpdate {
 
 // ENHANCED: Streaming event types for basic models with thinking support
 interface StreamingEvent {
-  type: 'connected' | 'conversation' | 'thinking' | 'streaming_start' | 'token' | 'streaming_end' | 'complete' | 'error' | 'artifact_created' | 'thinking_detected';
+  type: 'connected' | 'conversation' | 'thinking' | 'streaming_start' | 'token' | 'streaming_end' | 'complete' | 'error' | 'artifact_created' | 'thinking_detected' | 'tools_selection';
   conversation?: Conversation;
   conversationId?: string;
   isThinking?: boolean;
@@ -57,6 +75,13 @@ interface StreamingEvent {
   order?: number; // NEW: Artifact order
   // NEW: Thinking-related fields
   thinking?: ThinkingData;
+  // Tools offered to the model after relevance preselection
+  selectedTools?: Array<{ name: string; score?: number }>;
+  toolCount?: number;
+  toolMessage?: string;
+  // Ids of the stored messages, on complete
+  userMessageId?: string;
+  messageId?: string;
 }
 
 // NEW: Bulk artifact operation types
@@ -155,6 +180,7 @@ class ApiService {
       baseURL: '/api',
       headers: {
         'Content-Type': 'application/json',
+        'X-Client-Id': getClientId(),
       },
       // INCREASED DEFAULT TIMEOUT for model capability requests
       timeout: 60000, // 60 seconds (increased from 30 seconds)
@@ -481,6 +507,9 @@ class ApiService {
       visionModel?: string;
       conversationId?: string;
       images?: string[];
+      resources?: ResourceReference[];
+      requestId?: string;
+      personaId?: string; // persona to start a new conversation with
     },
     onEvent: (event: StreamingEvent) => void,
     capabilities?: ModelCapability | null | undefined
@@ -509,6 +538,9 @@ class ApiService {
       visionModel?: string;
       conversationId?: string;
       images?: string[];
+      resources?: ResourceReference[];
+      requestId?: string;
+      personaId?: string; // persona to start a new conversation with
     },
     onEvent: (event: StreamingEvent) => void
   ): Promise<void> {
@@ -518,6 +550,7 @@ class ApiService {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'X-Client-Id': getClientId(),
       },
       body: JSON.stringify(params),
     });
@@ -589,6 +622,21 @@ class ApiService {
     }
   }
 
+  // Stop the generation of a sendMessage or sendMessageStreaming call by its requestId.
+  // That call still resolves, with the partial answer and metadata.cancelled set.
+  // Returns false when the generation had already finished.
+  async cancelGeneration(requestId: string): Promise<boolean> {
+    try {
+      await this.client.post(`/chat/cancel/${encodeURIComponent(requestId)}`);
+      return true;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   // =====================================
   // ENHANCED CHAT API WITH MULTI-ARTIFACTS AND THINKING
   // =====================================
@@ -600,6 +648,9 @@ class ApiService {
     visionModel?: string;
     conversationId?: string;
     images?: string[];
+    resources?: ResourceReference[];
+    requestId?: string;
+    personaId?: string; // persona to start a new conversation with
   }): Promise<{
     conversation: Conversation;
     conversationId: string;
@@ -618,6 +669,8 @@ class ApiService {
     // NEW: Thinking support
     thinking?: ThinkingData;
     originalContentWithThinking?: string;
+    userMessageId?: string;
+    messageId?: string;
   }> {
     // Match nginx timeout configuration: 300s for vision processing
     const hasImages = params.images && params.images.length > 0;
@@ -640,6 +693,8 @@ class ApiService {
       artifact?: { id: string; type: string };
       thinking?: ThinkingData;
       originalContentWithThinking?: string;
+      userMessageId?: string;
+      messageId?: string;
     }>>('/chat/send', params, {
       timeout,
       // Add progress monitoring for long requests
@@ -668,6 +723,54 @@ class ApiService {
     return data.data!;
   }
 
+  // Answer the prompt of an assistant message again. The new answer is stored
+  // as a sibling of the old one and becomes the active branch.
+  async regenerateMessage(params: {
+    conversationId: string;
+    messageId: string;
+    model: string;
+    visionModel?: string;
+    requestId?: string;
+  }): Promise<{ conversationId: string; message: string; metadata: MessageMetadata; userMessageId?: string; messageId?: string }> {
+    const { data } = await this.client.post<ApiResponse<{
+      conversationId: string;
+      message: string;
+      metadata: MessageMetadata;
+      userMessageId?: string;
+      messageId?: string;
+    }>>('/chat/regenerate', params, { timeout: 300000 });
+    return data.data!;
+  }
+
+  // Send an edited copy of a user message as a sibling of the original and answer it
+  async editMessage(params: {
+    conversationId: string;
+    messageId: string;
+    message: string;
+    model: string;
+    visionModel?: string;
+    images?: string[];
+    requestId?: string;
+  }): Promise<{ conversationId: string; message: string; metadata: MessageMetadata; userMessageId?: string; messageId?: string }> {
+    const { data } = await this.client.post<ApiResponse<{
+      conversationId: string;
+      message: string;
+      metadata: MessageMetadata;
+      userMessageId?: string;
+      messageId?: string;
+    }>>('/chat/edit', params, { timeout: 300000 });
+    return data.data!;
+  }
+
+  // Make the branch through a message active and return its messages
+  async selectBranch(conversationId: string, messageId: string): Promise<Message[]> {
+    const { data } = await this.client.put<ApiResponse<{ conversationId: string; messages: Message[] }>>(
+      `/chat/conversations/${conversationId}/branch`,
+      { messageId }
+    );
+    return data.data!.messages;
+  }
+
   // =====================================
   // EXISTING API METHODS (unchanged but extended)
   // =====================================
@@ -730,6 +833,143 @@ class ApiService {
     return data.data!;
   }
 
+  async getMCPResources(serverId?: string): Promise<MCPResource[]> {
+    const { data } = await this.client.get<ApiResponse<{ resources: MCPResource[]; count: number }>>('/mcp/resources', {
+      params: serverId ? { serverId } : undefined,
+    });
+    return data.data?.resources || [];
+  }
+
+  async getMCPPrompts(serverId?: string): Promise<MCPPrompt[]> {
+    const { data } = await this.client.get<ApiResponse<{ prompts: MCPPrompt[]; count: number }>>('/mcp/prompts', {
+      params: serverId ? { serverId } : undefined,
+    });
+    return data.data?.prompts || [];
+  }
+
+  async getMCPPrompt(serverId: string, name: string, args?: Record<string, string>): Promise<MCPPromptResult> {
+    const { data } = await this.client.post<ApiResponse<MCPPromptResult>>('/mcp/prompts/get', {
+      serverId,
+      name,
+      arguments: args,
+    });
+    return data.data!;
+  }
+
+  async getMCPResourceTemplates(serverId?: string): Promise<MCPResourceTemplate[]> {
+    const { data } = await this.client.get<ApiResponse<{ templates: MCPResourceTemplate[]; count: number }>>('/mcp/resources/templates', {
+      params: serverId ? { serverId } : undefined,
+    });
+    return data.data?.templates || [];
+  }
+
+  async completeMCPArgument(serverId: string, request: MCPCompletionRequest): Promise<MCPCompletionResponse['completion']> {
+    const { data } = await this.client.post<ApiResponse<MCPCompletionResponse>>('/mcp/complete', {
+      serverId,
+      ...request,
+    });
+    return data.data?.completion || { values: [] };
+  }
+
+  async readMCPResource(serverId: string, uri: string): Promise<MCPResourceContent[]> {
+    const { data } = await this.client.get<ApiResponse<{ uri: string; contents: MCPResourceContent[] }>>('/mcp/resources/read', {
+      params: { serverId, uri },
+    });
+    return data.data?.contents || [];
+  }
+
+  async getAllMCPTools(): Promise<MCPTool[]> {
+    const { data } = await this.client.get<ApiResponse<{ tools: MCPTool[]; count: number }>>('/mcp/tools');
+    return data.data?.tools || [];
+  }
+
+  async getToolOverrides(): Promise<Record<string, ToolOverride>> {
+    const { data } = await this.client.get<ApiResponse<Record<string, ToolOverride>>>('/mcp/tool-overrides');
+    return data.data || {};
+  }
+
+  async saveToolOverrides(overrides: Record<string, ToolOverride>): Promise<Record<string, ToolOverride>> {
+    const { data } = await this.client.put<ApiResponse<Record<string, ToolOverride>>>('/mcp/tool-overrides', overrides);
+    return data.data || {};
+  }
+
+  async getToolSets(): Promise<{ toolSets: ToolSet[]; activeToolSetId: string | null }> {
+    const { data } = await this.client.get<ApiResponse<{ toolSets: ToolSet[]; activeToolSetId: string | null }>>('/mcp/tool-sets');
+    return data.data || { toolSets: [], activeToolSetId: null };
+  }
+
+  async createToolSet(toolSet: { name: string; description?: string; tools?: string[] }): Promise<ToolSet> {
+    const { data } = await this.client.post<ApiResponse<ToolSet>>('/mcp/tool-sets', toolSet);
+    return data.data!;
+  }
+
+  async updateToolSet(id: string, updates: { name?: string; description?: string; tools?: string[] }): Promise<ToolSet> {
+    const { data } = await this.client.put<ApiResponse<ToolSet>>(`/mcp/tool-sets/${id}`, updates);
+    return data.data!;
+  }
+
+  async deleteToolSet(id: string): Promise<void> {
+    await this.client.delete(`/mcp/tool-sets/${id}`);
+  }
+
+  async activateToolSet(id: string): Promise<void> {
+    await this.client.post(`/mcp/tool-sets/${id}/activate`);
+  }
+
+  async setConversationToolSet(conversationId: string, toolSetId: string | null): Promise<void> {
+    await this.client.put(`/chat/conversations/${conversationId}/tool-set`, { toolSetId });
+  }
+
+  async getPersonas(): Promise<Persona[]> {
+    const { data } = await this.client.get<ApiResponse<Persona[]>>('/personas');
+    return data.data || [];
+  }
+
+  async createPersona(persona: PersonaInput): Promise<Persona> {
+    const { data } = await this.client.post<ApiResponse<Persona>>('/personas', persona);
+    return data.data!;
+  }
+
+  async updatePersona(id: string, updates: Partial<PersonaInput>): Promise<Persona> {
+    const { data } = await this.client.put<ApiResponse<Persona>>(`/personas/${id}`, updates);
+    return data.data!;
+  }
+
+  async deletePersona(id: string): Promise<void> {
+    await this.client.delete(`/personas/${id}`);
+  }
+
+  async exportPersonas(ids?: string[]): Promise<PersonaExport> {
+    const { data } = await this.client.get<PersonaExport>('/personas/export', {
+      params: ids ? { ids: ids.join(',') } : undefined,
+    });
+    return data;
+  }
+
+  async importPersonas(
+    personas: PersonaExport['personas'],
+    onConflict: 'rename' | 'replace' | 'skip' = 'rename'
+  ): Promise<{ imported: Persona[]; skipped: string[] }> {
+    const { data } = await this.client.post<ApiResponse<{ imported: Persona[]; skipped: string[] }>>(
+      '/personas/import',
+      { personas, onConflict }
+    );
+    return data.data || { imported: [], skipped: [] };
+  }
+
+  // Switch a conversation's persona (null: none). systemPrompt overrides the persona's; null clears the override.
+  async setConversationPersona(
+    conversationId: string,
+    personaId: string | null,
+    systemPrompt?: string | null
+  ): Promise<Conversation> {
+    const { data } = await this.client.put<ApiResponse<Conversation>>(
+      `/chat/conversations/${conversationId}/persona`,
+      { personaId, systemPrompt }
+    );
+    return data.data!;
+  }
+
   async getConversations(page = 1, limit = 20): Promise<{ conversations: Conversation[]; total: number }> {
     const { data } = await this.client.get<ApiResponse<Conversation[]> & { total: number }>(
       `/chat/conversations?page=${page}&limit=${limit}`
@@ -769,6 +1009,12 @@ class ApiService {
     }
   }
 
+  // Message counts, summary coverage and context window usage of a conversation
+  async getMemoryStats(conversationId: string): Promise<ConversationMemoryStats> {
+    const { data } = await this.client.get<ApiResponse<ConversationMemoryStats>>(`/chat/conversations/${conversationId}/memory-stats`);
+    return data.data!;
+  }
+
   async deleteConversation(id: string): Promise<void> {
     await this.client.delete(`/chat/conversations/${id}`);
   }
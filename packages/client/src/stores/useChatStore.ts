@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { Conversation, Message, ModelCapability } from '@olympian/shared';
+import { Conversation, Message, ModelCapability, Persona } from '@olympian/shared';
 import { api } from '@/services/api';
 import { toast } from '@/hooks/useToast';
 import { useArtifactStore } from './useArtifactStore';
@@ -13,6 +13,8 @@ interface ChatStore {
   selectedModel: string | null;
   selectedVisionModel: string | null;
   modelCapabilities: ModelCapability | null;
+  personas: Persona[];
+  selectedPersonaId: string | null; // persona of the current conversation, or to start the next one with
   isLoadingConversations: boolean;
   isLoadingMessages: boolean;
   isLoadingModels: boolean;
@@ -27,7 +29,12 @@ interface ChatStore {
   fetchVisionModels: () => Promise<void>;
   selectModel: (model: string) => Promise<void>;
   selectVisionModel: (model: string) => void;
+  fetchPersonas: () => Promise<void>;
+  selectPersona: (personaId: string | null) => Promise<void>;
   addMessage: (message: Message) => void;
+  updateMessage: (message: Message, changes: Partial<Message>) => void;
+  setMessages: (messages: Message[]) => void;
+  selectBranch: (messageId: string) => Promise<void>;
   clearCurrentConversation: () => void;
 }
 
@@ -79,6 +86,8 @@ export const useChatStore = create<ChatStore>((set, get) => ({
   selectedModel: null,
   selectedVisionModel: null,
   modelCapabilities: null,
+  personas: [],
+  selectedPersonaId: null,
   isLoadingConversations: false,
   isLoadingMessages: false,
   isLoadingModels: false,
@@ -107,7 +116,7 @@ export const useChatStore = create<ChatStore>((set, get) => ({
     try {
       const conversation = await api.getConversation(id);
       console.log('✅ [useChatStore] selectConversation success:', conversation);
-      set({ currentConversation: conversation });
+      set({ currentConversation: conversation, selectedPersonaId: conversation.personaId ?? null });
       await get().fetchMessages(id);
     } catch (error) {
       console.error('❌ [useChatStore] selectConversation error:', error);
@@ -369,11 +378,80 @@ export const useChatStore = create<ChatStore>((set, get) => ({
     set({ selectedVisionModel: model });
   },
 
+  fetchPersonas: async () => {
+    try {
+      const personas = await api.getPersonas();
+      set(state => ({
+        personas,
+        selectedPersonaId: personas.some(persona => persona._id === state.selectedPersonaId) ? state.selectedPersonaId : null,
+      }));
+    } catch (error) {
+      console.error('❌ [useChatStore] fetchPersonas error:', error);
+    }
+  },
+
+  // Selecting a persona switches to its default model and, in an open conversation, makes it the conversation's persona
+  selectPersona: async (personaId) => {
+    console.log('🎭 [useChatStore] selectPersona called with personaId:', personaId);
+    const persona = get().personas.find(candidate => candidate._id === personaId);
+    const conversationId = get().currentConversation?._id?.toString();
+
+    try {
+      if (conversationId) {
+        const conversation = await api.setConversationPersona(conversationId, personaId);
+        set(state => ({
+          currentConversation: conversation,
+          conversations: state.conversations.map(c => (c._id?.toString() === conversationId ? conversation : c)),
+        }));
+      }
+      set({ selectedPersonaId: personaId });
+
+      if (persona?.defaultModel && get().models.includes(persona.defaultModel)) {
+        await get().selectModel(persona.defaultModel);
+      }
+    } catch (error) {
+      console.error('❌ [useChatStore] selectPersona error:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to switch persona',
+        variant: 'destructive',
+      });
+    }
+  },
+
   addMessage: (message) => {
     console.log('➕ [useChatStore] addMessage called:', message);
     set(state => ({ messages: [...state.messages, message] }));
   },
 
+  updateMessage: (message, changes) => {
+    set(state => ({
+      messages: state.messages.map(existing => (existing === message ? { ...existing, ...changes } : existing))
+    }));
+  },
+
+  setMessages: (messages) => {
+    set({ messages });
+  },
+
+  selectBranch: async (messageId) => {
+    const conversationId = get().currentConversation?._id?.toString();
+    if (!conversationId) return;
+
+    console.log('🌿 [useChatStore] selectBranch called with messageId:', messageId);
+    try {
+      const messages = await api.selectBranch(conversationId, messageId);
+      set({ messages });
+    } catch (error) {
+      console.error('❌ [useChatStore] selectBranch error:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to switch branch',
+        variant: 'destructive',
+      });
+    }
+  },
+
   clearCurrentConversation: () => {
     console.log('🧹 [useChatStore] clearCurrentConversation called');
     set({ currentConversation: null, messages: [] });
@@ -23,6 +23,8 @@ export interface HILRequest {
     description: string;
     arguments: any;
   };
+  conversationId?: string;
+  alwaysAsk?: boolean; // approve once, as shown: no argument edits or remembered approvals
   timeout: number;
   timestamp: number;
 }
@@ -31,7 +33,7 @@ export interface ToolExecution {
   id: string;
   toolName: string;
   namespace: string;
-  status: 'pending' | 'executing' | 'success' | 'error' | 'rejected';
+  status: 'pending' | 'executing' | 'success' | 'error' | 'rejected' | 'cancelled';
   result?: any;
   error?: string;
   timestamp: Date;
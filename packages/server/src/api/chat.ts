@@ -1,8 +1,12 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { ObjectId, WithId } from 'mongodb';
 import { DatabaseService } from '../services/DatabaseService';
 import { StreamlinerFactory } from "./StreamlinerFactory";
 import { ChatMemoryService } from '../services/ChatMemoryService';
+import { MCPManager } from '../services/MCPManager';
+import { ToolSelectionService } from '../services/ToolSelectionService';
+import { HILManager } from '../services/HILManager';
+import { PersonaService, MAX_SYSTEM_PROMPT_LENGTH } from '../services/PersonaService';
 import { ArtifactService } from '../services/ArtifactService'; // NEW: Artifact service integration
 import { modelProgressiveLoader } from '../services/ModelProgressiveLoader';
 import { AppError } from '../middleware/errorHandler';
@@ -27,7 +31,13 @@ import {
   detectDuplicateArtifacts,
   calculateContentHash,
   parseThinkingFromContent,
-  ThinkingData
+  ThinkingData,
+  MessageMetadata,
+  ToolCall,
+  ToolResult,
+  MCPResource,
+  MCPToolSelectionResponse,
+  Persona
 } from '@olympian/shared';
 
 const router = Router();
@@ -46,13 +56,49 @@ const sendMessageSchema = z.object({
   model: z.string().min(1),
   visionModel: z.string().optional(),
   images: z.array(z.string()).optional(),
+  maxToolSteps: z.number().int().min(1).max(20).optional(),
+  toolSetId: z.string().min(1).optional(),
+  personaId: z.string().min(1).optional(), // only used when starting a conversation
+  resources: z.array(z.object({
+    serverId: z.string().min(1),
+    uri: z.string().min(1),
+  })).max(10).optional(),
+  requestId: z.string().min(1).max(100).optional(), // lets the client stop the generation with POST /cancel/:requestId
+});
+
+const regenerateSchema = z.object({
+  conversationId: z.string().min(1),
+  messageId: z.string().min(1),
+  model: z.string().min(1),
+  visionModel: z.string().optional(),
+  maxToolSteps: z.number().int().min(1).max(20).optional(),
+  requestId: z.string().min(1).max(100).optional(),
+});
+
+const editMessageSchema = regenerateSchema.extend({
+  message: z.string().min(1).max(10000),
+  images: z.array(z.string()).optional(),
+});
+
+const selectBranchSchema = z.object({
+  messageId: z.string().min(1),
+});
+
+const conversationToolSetSchema = z.object({
+  toolSetId: z.string().min(1).nullable(),
+});
+
+const conversationPersonaSchema = z.object({
+  personaId: z.string().min(1).nullable(),
+  systemPrompt: z.string().max(MAX_SYSTEM_PROMPT_LENGTH).nullable().optional(),
 });
 
 const memoryConfigSchema = z.object({
   maxMessages: z.number().min(1).max(100).optional(),
   maxTokens: z.number().min(100).max(10000).optional(),
   includeSystemPrompt: z.boolean().optional(),
-  systemPrompt: z.string().max(500).optional(),
+  systemPrompt: z.string().max(MAX_SYSTEM_PROMPT_LENGTH).optional(),
+  summarize: z.boolean().optional(),
 });
 
 // Database document types (with ObjectId)
@@ -85,6 +131,144 @@ function toObjectId(id: string | ObjectId): ObjectId {
   return id;
 }
 
+// Generations in progress, by the client's request id
+const activeGenerations = new Map<string, AbortController>();
+
+// Helper function to create the abort controller of a generation. It is aborted by
+// POST /cancel/:requestId or when the client disconnects before the response is sent.
+function trackGeneration(requestId: string | undefined, res: Response): AbortController {
+  const controller = new AbortController();
+  if (requestId) {
+    activeGenerations.set(requestId, controller);
+  }
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+    if (requestId && activeGenerations.get(requestId) === controller) {
+      activeGenerations.delete(requestId);
+    }
+  });
+  return controller;
+}
+
+// Helper function to save the partial answer of a stopped generation and return its id. The
+// user message is already saved; an answer cancelled before any text is left out, and the
+// branch then ends at the user message.
+async function saveCancelledResponse(
+  convId: string,
+  assistantMessageDoc: MessageDoc,
+  savedUserMessage: boolean
+): Promise<string | undefined> {
+  let assistantMessageId: string | undefined;
+  if (assistantMessageDoc.content) {
+    const result = await db.messages.insertOne(assistantMessageDoc as any);
+    assistantMessageId = result.insertedId.toString();
+  }
+  await db.conversations.updateOne(
+    { _id: toObjectId(convId) as any },
+    {
+      $set: { updatedAt: new Date(), activeLeafId: assistantMessageId || assistantMessageDoc.parentId || undefined },
+      $inc: { messageCount: (savedUserMessage ? 1 : 0) + (assistantMessageId ? 1 : 0) },
+    }
+  );
+  console.log(`🛑 [ChatAPI] Generation cancelled, saved ${assistantMessageDoc.content.length} chars of partial response`);
+  return assistantMessageId;
+}
+
+// Helper function to load a conversation or fail with 404
+async function findConversation(conversationId: string): Promise<Conversation> {
+  const doc = ObjectId.isValid(conversationId)
+    ? await db.conversations.findOne({ _id: toObjectId(conversationId) as any })
+    : null;
+  if (!doc) {
+    throw new AppError(404, 'Conversation not found');
+  }
+  return formatConversation(doc);
+}
+
+// Helper function to look up the persona a request names, failing with 404 when it is unknown
+function getPersona(personaId?: string): Persona | undefined {
+  if (!personaId) {
+    return undefined;
+  }
+  const persona = PersonaService.getInstance().get(personaId);
+  if (!persona) {
+    throw new AppError(404, 'Persona not found');
+  }
+  return persona;
+}
+
+// Helper function to summarize tool loop activity from a streamChat result into message metadata
+function buildToolMetadata(result: { toolCalls?: ToolCall[]; toolResults?: ToolResult[]; agentSteps?: number }): Partial<MessageMetadata> {
+  const toolCalls = result.toolCalls || [];
+  if (toolCalls.length === 0) {
+    return {};
+  }
+
+  const toolResults = result.toolResults || [];
+  return {
+    toolCalls,
+    toolResults,
+    toolsUsed: [...new Set(toolCalls.map(call => call.function.name))],
+    toolExecutionTime: toolResults.reduce((total, r) => total + (r.duration || 0), 0),
+    mcpServersUsed: [...new Set(toolCalls.map(call => call.serverId).filter((id): id is string => !!id))],
+    agentSteps: result.agentSteps,
+  };
+}
+
+// Names of the tools offered to the model after relevance preselection
+function getOfferedTools(selection?: MCPToolSelectionResponse): string[] {
+  if (!selection) {
+    return [];
+  }
+  return [selection.selectedTool, ...(selection.alternativeTools || [])].map(tool => tool.name);
+}
+
+// Resource text beyond this is truncated before it is handed to the model
+const MAX_RESOURCE_CONTEXT_CHARS = 20000;
+
+// Helper function to read attached MCP resources and render them as context for the model
+async function loadResourceContext(refs: Array<{ serverId: string; uri: string }> = []): Promise<{ context: string; attached: MCPResource[] }> {
+  const mcp = MCPManager.getInstance();
+  const blocks: string[] = [];
+  const attached: MCPResource[] = [];
+
+  for (const ref of refs) {
+    let contents;
+    try {
+      contents = await mcp.readResource(ref.serverId, ref.uri);
+    } catch (error) {
+      throw new AppError(400, `Failed to read resource ${ref.uri}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const known = mcp.getServers().get(ref.serverId)?.resources?.find(r => r.uri === ref.uri);
+    let text = contents
+      .map(c => c.text ?? `[binary content${c.mimeType ? ` (${c.mimeType})` : ''} omitted]`)
+      .join('\n');
+    if (text.length > MAX_RESOURCE_CONTEXT_CHARS) {
+      text = text.slice(0, MAX_RESOURCE_CONTEXT_CHARS) + '\n[truncated]';
+    }
+
+    blocks.push(`<resource uri="${ref.uri}"${known?.name ? ` name="${known.name}"` : ''}>\n${text}\n</resource>`);
+    attached.push({
+      serverId: ref.serverId,
+      uri: ref.uri,
+      name: known?.name,
+      description: known?.description,
+      mimeType: known?.mimeType || contents[0]?.mimeType,
+    });
+  }
+
+  return { context: blocks.join('\n\n'), attached };
+}
+
+// Helper function to prefix a user message with attached resource context
+function withResourceContext(message: string, context: string): string {
+  if (!context) return message;
+  return `The following resources were attached as context:\n\n${context}\n\n${message}`;
+}
+
 // Helper function to check if a model is basic (no capabilities)
 function isBasicModel(capabilities: ModelCapability | null): boolean {
   if (!capabilities) return false;
@@ -662,13 +846,14 @@ router.post('/stream', async (req, res, next) => {
       throw new AppError(400, 'Invalid request body');
     }
 
-    const { message, conversationId, model, visionModel, images } = validation.data;
+    const { message, conversationId, model, visionModel, images, maxToolSteps, toolSetId, personaId, resources, requestId } = validation.data;
 
     // Check if model is basic (no capabilities)
     const capabilities = await getModelCapabilitiesWithFallback(model);
     if (!isBasicModel(capabilities)) {
       throw new AppError(400, 'Streaming is only available for basic models (models without vision, tools, or reasoning capabilities)');
     }
+    const persona = getPersona(personaId);
 
     // Set up Server-Sent Events
     res.writeHead(200, {
@@ -681,6 +866,7 @@ router.post('/stream', async (req, res, next) => {
 
     // Send initial event to confirm connection
     res.write(`data: ${JSON.stringify({ type: 'connected' })}\n\n`);
+    const abortController = trackGeneration(requestId, res);
 
     try {
       // Get or create conversation
@@ -705,6 +891,8 @@ router.post('/stream', async (req, res, next) => {
           createdAt: new Date(),
           updatedAt: new Date(),
           messageCount: 0,
+          personaId: persona?._id,
+          toolSetId: toolSetId || persona?.toolSetId || ToolSelectionService.getInstance().getActiveToolSetId() || undefined,
         };
         const result = await db.conversations.insertOne(newConversation as any);
         convId = result.insertedId.toString();
@@ -721,18 +909,42 @@ router.post('/stream', async (req, res, next) => {
         conversationId: convId 
       })}\n\n`);
 
+      // Read attached MCP resources before building the request
+      const { context: resourceContext, attached: attachedResources } = await loadResourceContext(resources);
+
       // Create streamliner based on model
       const streamliner = StreamlinerFactory.getStreamliner(model);
       await streamliner.initialize();
+      // The new turn continues the active branch
+      const parentId = await memoryService.getActiveLeafId(convId);
       // Process the request WITHOUT saving the user message first
       // This prevents duplicate messages in the conversation history
       const processedRequest = await streamliner.processRequest({
-        content: message,
+        content: withResourceContext(message, resourceContext),
         model,
         visionModel,
         images,
         conversationId: convId,
+        maxToolSteps,
+        toolSetId: conversation.toolSetId,
+        clientId: req.get('x-client-id'),
+        parentMessageId: parentId,
+        ...PersonaService.getInstance().getRequestSettings(conversation),
       });
+      const offeredTools = getOfferedTools(processedRequest.toolSelection);
+
+      // Tell the client which tools the model is being offered
+      if (processedRequest.toolSelection) {
+        const { scores = {}, reasoning, totalTools } = processedRequest.toolSelection;
+        res.write(`data: ${JSON.stringify({
+          type: 'tools_selection',
+          toolStatus: 'selecting',
+          selectedTools: offeredTools.map(name => ({ name, score: scores[name] })),
+          toolCount: offeredTools.length,
+          toolMessage: reasoning,
+          metadata: { totalTools }
+        })}\n\n`);
+      }
 
       // Send thinking state
       res.write(`data: ${JSON.stringify({ type: 'thinking', isThinking: true })}\n\n`);
@@ -741,6 +953,7 @@ router.post('/stream', async (req, res, next) => {
       let assistantContent = '';
       const startTime = Date.now();
       let tokenCount = 0;
+      let toolMetadata: Partial<MessageMetadata> = {};
 
       res.write(`data: ${JSON.stringify({ type: 'streaming_start' })}\n\n`);
 
@@ -752,15 +965,18 @@ router.post('/stream', async (req, res, next) => {
           tokenCount++;
           
           // Send each token as it comes
-          res.write(`data: ${JSON.stringify({ 
-            type: 'token', 
-            token,
-            content: assistantContent 
-          })}\n\n`);
+          if (!abortController.signal.aborted) {
+            res.write(`data: ${JSON.stringify({ 
+              type: 'token', 
+              token,
+              content: assistantContent 
+            })}\n\n`);
+          }
         },
         // ENHANCED: onComplete callback for thinking processing
         (result: any) => {
           console.log('🧠 [ChatAPI] Stream completed, processing thinking content...');
+          toolMetadata = buildToolMetadata(result);
           
           // FIXED: Process thinking if present and send event to frontend
           if (result.thinking?.hasThinking) {
@@ -772,11 +988,16 @@ router.post('/stream', async (req, res, next) => {
               thinking: result.thinking.thinkingData
             })}\n\n`);
           }
-        }
+        },
+        undefined,
+        abortController.signal
       );
+      const cancelled = abortController.signal.aborted;
 
       // Send streaming end
-      res.write(`data: ${JSON.stringify({ type: 'streaming_end' })}\n\n`);
+      if (!cancelled) {
+        res.write(`data: ${JSON.stringify({ type: 'streaming_end' })}\n\n`);
+      }
 
       // NOW save both messages AFTER the response is generated
       // This ensures the conversation history is correct for the next request
@@ -785,6 +1006,8 @@ router.post('/stream', async (req, res, next) => {
         role: 'user' as const,
         content: message,
         images,
+        metadata: attachedResources.length > 0 ? { attachedResources } : undefined,
+        parentId,
         createdAt: new Date(),
       };
       const userResult = await db.messages.insertOne(userMessage as any);
@@ -814,9 +1037,30 @@ router.post('/stream', async (req, res, next) => {
           // ENHANCED: Add thinking metadata
           thinking: thinkingData,
           originalContentWithThinking: thinkingResult.hasThinking ? assistantContent : undefined,
+          ...toolMetadata,
+          offeredTools: offeredTools.length > 0 ? offeredTools : undefined,
+          cancelled: cancelled || undefined,
         },
+        parentId: userMessageId,
         createdAt: new Date(),
       };
+
+      // A stopped generation keeps its partial text; artifacts are only made from complete answers
+      if (cancelled) {
+        const partialMessageId = await saveCancelledResponse(convId, assistantMessageDoc, true);
+        if (!res.destroyed) {
+          res.write(`data: ${JSON.stringify({
+            type: 'complete',
+            message: finalAssistantContent,
+            metadata: assistantMessageDoc.metadata,
+            conversationId: convId,
+            userMessageId,
+            messageId: partialMessageId
+          })}\n\n`);
+        }
+        res.end();
+        return;
+      }
       
       const assistantResult = await db.messages.insertOne(assistantMessageDoc as any);
       const assistantMessageId = assistantResult.insertedId.toString();
@@ -870,7 +1114,7 @@ router.post('/stream', async (req, res, next) => {
       await db.conversations.updateOne(
         { _id: toObjectId(convId) as any },
         {
-          $set: { updatedAt: new Date() },
+          $set: { updatedAt: new Date(), activeLeafId: assistantMessageId },
           $inc: { messageCount: 2 },
         }
       );
@@ -895,7 +1139,9 @@ router.post('/stream', async (req, res, next) => {
           thinking: thinkingData,
           originalContentWithThinking: thinkingResult.hasThinking ? assistantContent : undefined
         },
-        conversationId: convId 
+        conversationId: convId,
+        userMessageId,
+        messageId: assistantMessageId
       })}\n\n`);
 
     } catch (streamError) {
@@ -912,6 +1158,211 @@ router.post('/stream', async (req, res, next) => {
   }
 });
 
+// Helper function to generate the reply to a user turn and save it, for /send, /regenerate and /edit.
+// The user message is saved after `parentId`, unless `userMessageId` names one to answer again.
+async function generateReply(options: {
+  conversation: Conversation;
+  message: string;
+  images?: string[];
+  resources?: Array<{ serverId: string; uri: string }>;
+  model: string;
+  visionModel?: string;
+  maxToolSteps?: number;
+  clientId?: string;
+  parentId: string | null;
+  userMessageId?: string;
+}, signal: AbortSignal) {
+  const { conversation, message, images, resources, model, visionModel, maxToolSteps, clientId, parentId, userMessageId } = options;
+  const convId = conversation._id!;
+
+  // Read attached MCP resources before building the request
+  const { context: resourceContext, attached: attachedResources } = await loadResourceContext(resources);
+
+  // Create streamliner based on model
+  const streamliner = StreamlinerFactory.getStreamliner(model);
+  await streamliner.initialize();
+  // Process the request WITHOUT saving the user message first
+  const processedRequest = await streamliner.processRequest({
+    content: withResourceContext(message, resourceContext),
+    model,
+    visionModel,
+    images,
+    conversationId: convId,
+    maxToolSteps,
+    toolSetId: conversation.toolSetId,
+    clientId,
+    parentMessageId: parentId,
+    ...PersonaService.getInstance().getRequestSettings(conversation),
+  });
+  const offeredTools = getOfferedTools(processedRequest.toolSelection);
+
+  // Get response from Ollama (non-streaming for HTTP)
+  let assistantContent = '';
+  const startTime = Date.now();
+  let tokenCount = 0;
+  let thinkingData: ThinkingData | undefined = undefined;
+  let toolMetadata: Partial<MessageMetadata> = {};
+
+  // ENHANCED: Enhanced streamChat with thinking processing for non-streaming endpoint
+  await streamliner.streamChat(
+    processedRequest, 
+    (token: string) => {
+      assistantContent += token;
+      tokenCount++;
+    },
+    // ENHANCED: onComplete callback for thinking processing
+    (result) => {
+      console.log('🧠 [ChatAPI] Non-streaming request completed, processing thinking content...');
+      toolMetadata = buildToolMetadata(result);
+      
+      if (result.thinking?.hasThinking) {
+        console.log(`✅ [ChatAPI] Thinking content detected (${result.thinking.thinkingContent.length} chars)`);
+        thinkingData = result.thinking.thinkingData;
+      }
+    },
+    undefined,
+    signal
+  );
+  const cancelled = signal.aborted;
+
+  // ENHANCED: Process thinking content
+  const thinkingResult = parseThinkingFromContent(assistantContent);
+  let finalAssistantContent = assistantContent;
+  
+  if (thinkingResult.hasThinking) {
+    console.log(`🧠 [ChatAPI] Processing thinking content for database storage`);
+    finalAssistantContent = thinkingResult.processedContent;
+    thinkingData = thinkingResult.thinkingData;
+  }
+
+  // Save both messages AFTER generating the response; a regenerated reply answers the existing user message
+  let savedUserMessageId = userMessageId;
+  if (!savedUserMessageId) {
+    const userMessage: MessageDoc = {
+      conversationId: convId,
+      role: 'user' as const,
+      content: message,
+      images,
+      metadata: attachedResources.length > 0 ? { attachedResources } : undefined,
+      parentId,
+      createdAt: new Date(),
+    };
+    const userResult = await db.messages.insertOne(userMessage as any);
+    savedUserMessageId = userResult.insertedId.toString();
+  }
+
+  // Save assistant message
+  const assistantMessageDoc: MessageDoc = {
+    conversationId: convId,
+    role: 'assistant' as const,
+    content: finalAssistantContent,
+    metadata: {
+      model,
+      visionModel,
+      tokens: tokenCount,
+      generationTime: Date.now() - startTime,
+      // ENHANCED: Add thinking metadata
+      thinking: thinkingData,
+      originalContentWithThinking: thinkingResult.hasThinking ? assistantContent : undefined,
+      ...toolMetadata,
+      offeredTools: offeredTools.length > 0 ? offeredTools : undefined,
+      cancelled: cancelled || undefined,
+    },
+    parentId: savedUserMessageId,
+    createdAt: new Date(),
+  };
+
+  // A stopped generation keeps its partial text; artifacts are only made from complete answers
+  if (cancelled) {
+    return {
+      conversation,
+      conversationId: convId,
+      userMessageId: savedUserMessageId,
+      messageId: await saveCancelledResponse(convId, assistantMessageDoc, !userMessageId),
+      message: finalAssistantContent,
+      metadata: assistantMessageDoc.metadata,
+      thinking: thinkingData,
+      originalContentWithThinking: thinkingResult.hasThinking ? assistantContent : undefined
+    };
+  }
+  
+  const assistantResult = await db.messages.insertOne(assistantMessageDoc as any);
+  const assistantMessageId = assistantResult.insertedId.toString();
+
+  // FIXED: Process artifacts with original content (including thinking tags)
+  console.log(`🎨 [ChatAPI] Processing assistant response for multi-artifacts...`);
+  const artifactResult = await createMultiArtifactsFromResponse(
+    finalAssistantContent, // Processed content without thinking tags
+    convId,
+    assistantMessageId,
+    thinkingResult.hasThinking ? assistantContent : undefined // Original content with thinking tags
+  );
+
+  // Update assistant message with multi-artifact metadata if artifacts were created
+  let finalContent = finalAssistantContent;
+  let finalMetadata = assistantMessageDoc.metadata;
+  
+  if (artifactResult.hasArtifact) {
+    finalContent = artifactResult.processedContent;
+    finalMetadata = {
+      ...assistantMessageDoc.metadata,
+      artifacts: artifactResult.artifacts,
+      hasArtifact: true,
+      artifactCount: artifactResult.artifactCount,
+      artifactCreationStrategy: artifactResult.creationStrategy,
+      multipleCodeBlocks: artifactResult.artifactCount > 1,
+      originalContent: finalAssistantContent,
+      codeBlocksRemoved: true,
+      // Legacy compatibility
+      artifactId: artifactResult.artifacts[0]?.artifactId,
+      artifactType: artifactResult.artifacts[0]?.artifactType
+    };
+
+    await db.messages.updateOne(
+      { _id: toObjectId(assistantMessageId) as any },
+      {
+        $set: {
+          content: finalContent,
+          metadata: finalMetadata,
+          updatedAt: new Date()
+        }
+      }
+    );
+
+    console.log(`✅ [ChatAPI] Assistant message updated with ${artifactResult.artifactCount} artifacts`);
+  }
+
+  // Update conversation
+  await db.conversations.updateOne(
+    { _id: toObjectId(convId) as any },
+    {
+      $set: { updatedAt: new Date(), activeLeafId: assistantMessageId },
+      $inc: { messageCount: userMessageId ? 1 : 2 },
+    }
+  );
+
+  // ENHANCED: Return response with proper conversation object and thinking data
+  return {
+    conversation,
+    conversationId: convId,
+    userMessageId: savedUserMessageId,
+    messageId: assistantMessageId,
+    message: finalContent,
+    metadata: finalMetadata,
+    // NEW: Include multi-artifact information in response
+    artifacts: artifactResult.hasArtifact ? artifactResult.artifacts : undefined,
+    artifactCount: artifactResult.artifactCount,
+    // Legacy artifact information for backward compatibility
+    artifact: artifactResult.hasArtifact ? {
+      id: artifactResult.artifacts[0]?.artifactId,
+      type: artifactResult.artifacts[0]?.artifactType
+    } : undefined,
+    // ENHANCED: Include thinking data in response
+    thinking: thinkingData,
+    originalContentWithThinking: thinkingResult.hasThinking ? assistantContent : undefined
+  };
+}
+
 // =====================================
 // ENHANCED SEND MESSAGE ENDPOINT WITH THINKING
 // =====================================
@@ -925,7 +1376,9 @@ router.post('/send', async (req, res, next) => {
       throw new AppError(400, 'Invalid request body');
     }
 
-    const { message, conversationId, model, visionModel, images } = validation.data;
+    const { message, conversationId, model, visionModel, images, maxToolSteps, toolSetId, personaId, resources, requestId } = validation.data;
+    const persona = getPersona(personaId);
+    const abortController = trackGeneration(requestId, res);
 
     // Get or create conversation
     let convId: string;
@@ -949,6 +1402,8 @@ router.post('/send', async (req, res, next) => {
         createdAt: new Date(),
         updatedAt: new Date(),
         messageCount: 0,
+        personaId: persona?._id,
+        toolSetId: toolSetId || persona?.toolSetId || ToolSelectionService.getInstance().getActiveToolSetId() || undefined,
       };
       const result = await db.conversations.insertOne(newConversation as any);
       convId = result.insertedId.toString();
@@ -958,155 +1413,133 @@ router.post('/send', async (req, res, next) => {
       });
     }
 
-    // Create streamliner based on model
-    const streamliner = StreamlinerFactory.getStreamliner(model);
-    await streamliner.initialize();
-    // Process the request WITHOUT saving the user message first
-    const processedRequest = await streamliner.processRequest({
-      content: message,
+    const data = await generateReply({
+      conversation,
+      message,
+      images,
+      resources,
       model,
       visionModel,
-      images,
-      conversationId: convId,
-    });
+      maxToolSteps,
+      clientId: req.get('x-client-id'),
+      parentId: await memoryService.getActiveLeafId(convId),
+    }, abortController.signal);
+
+    // The client is gone when it disconnected to stop the generation
+    if (!res.destroyed) {
+      res.json({
+        success: true,
+        data,
+        timestamp: new Date(),
+      });
+    }
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // Get response from Ollama (non-streaming for HTTP)
-    let assistantContent = '';
-    const startTime = Date.now();
-    let tokenCount = 0;
-    let thinkingData: ThinkingData | undefined = undefined;
-
-    // ENHANCED: Enhanced streamChat with thinking processing for non-streaming endpoint
-    await streamliner.streamChat(
-      processedRequest, 
-      (token: string) => {
-        assistantContent += token;
-        tokenCount++;
-      },
-      // ENHANCED: onComplete callback for thinking processing
-      (result) => {
-        console.log('🧠 [ChatAPI] Non-streaming request completed, processing thinking content...');
-        
-        if (result.thinking?.hasThinking) {
-          console.log(`✅ [ChatAPI] Thinking content detected (${result.thinking.thinkingContent.length} chars)`);
-          thinkingData = result.thinking.thinkingData;
-        }
-      }
-    );
+// Answer a user message again: the new reply is a sibling of the assistant message `messageId`
+router.post('/regenerate', async (req, res, next) => {
+  try {
+    const validation = regenerateSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(400, 'Invalid request body');
+    }
 
-    // ENHANCED: Process thinking content
-    const thinkingResult = parseThinkingFromContent(assistantContent);
-    let finalAssistantContent = assistantContent;
-    
-    if (thinkingResult.hasThinking) {
-      console.log(`🧠 [ChatAPI] Processing thinking content for database storage`);
-      finalAssistantContent = thinkingResult.processedContent;
-      thinkingData = thinkingResult.thinkingData;
+    const { conversationId, messageId, model, visionModel, maxToolSteps, requestId } = validation.data;
+    const abortController = trackGeneration(requestId, res);
+    const conversation = await findConversation(conversationId);
+
+    const reply = await memoryService.getMessage(conversationId, messageId);
+    if (!reply || reply.role !== 'assistant') {
+      throw new AppError(404, 'Assistant message not found');
+    }
+    const prompt = reply.parentId ? await memoryService.getMessage(conversationId, reply.parentId) : undefined;
+    if (!prompt || prompt.role !== 'user') {
+      throw new AppError(400, 'Message does not answer a user message');
     }
 
-    // Save both messages AFTER generating the response
-    const userMessage: MessageDoc = {
-      conversationId: convId,
-      role: 'user' as const,
-      content: message,
-      images,
-      createdAt: new Date(),
-    };
-    await db.messages.insertOne(userMessage as any);
+    const data = await generateReply({
+      conversation,
+      message: prompt.content,
+      images: prompt.images,
+      resources: prompt.metadata?.attachedResources?.map(({ serverId, uri }) => ({ serverId, uri })),
+      model,
+      visionModel,
+      maxToolSteps,
+      clientId: req.get('x-client-id'),
+      parentId: prompt.parentId ?? null,
+      userMessageId: prompt._id,
+    }, abortController.signal);
+
+    if (!res.destroyed) {
+      res.json({
+        success: true,
+        data,
+        timestamp: new Date(),
+      });
+    }
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // Save assistant message
-    const assistantMessageDoc: MessageDoc = {
-      conversationId: convId,
-      role: 'assistant' as const,
-      content: finalAssistantContent,
-      metadata: {
-        model,
-        visionModel,
-        tokens: tokenCount,
-        generationTime: Date.now() - startTime,
-        // ENHANCED: Add thinking metadata
-        thinking: thinkingData,
-        originalContentWithThinking: thinkingResult.hasThinking ? assistantContent : undefined,
-      },
-      createdAt: new Date(),
-    };
-    
-    const assistantResult = await db.messages.insertOne(assistantMessageDoc as any);
-    const assistantMessageId = assistantResult.insertedId.toString();
-
-    // FIXED: Process artifacts with original content (including thinking tags)
-    console.log(`🎨 [ChatAPI] Processing assistant response for multi-artifacts...`);
-    const artifactResult = await createMultiArtifactsFromResponse(
-      finalAssistantContent, // Processed content without thinking tags
-      convId,
-      assistantMessageId,
-      thinkingResult.hasThinking ? assistantContent : undefined // Original content with thinking tags
-    );
+// Edit and resend a user message: the edited message is a sibling of `messageId`, with its own reply
+router.post('/edit', async (req, res, next) => {
+  try {
+    const validation = editMessageSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(400, 'Invalid request body');
+    }
 
-    // Update assistant message with multi-artifact metadata if artifacts were created
-    let finalContent = finalAssistantContent;
-    let finalMetadata = assistantMessageDoc.metadata;
-    
-    if (artifactResult.hasArtifact) {
-      finalContent = artifactResult.processedContent;
-      finalMetadata = {
-        ...assistantMessageDoc.metadata,
-        artifacts: artifactResult.artifacts,
-        hasArtifact: true,
-        artifactCount: artifactResult.artifactCount,
-        artifactCreationStrategy: artifactResult.creationStrategy,
-        multipleCodeBlocks: artifactResult.artifactCount > 1,
-        originalContent: finalAssistantContent,
-        codeBlocksRemoved: true,
-        // Legacy compatibility
-        artifactId: artifactResult.artifacts[0]?.artifactId,
-        artifactType: artifactResult.artifacts[0]?.artifactType
-      };
+    const { conversationId, messageId, message, images, model, visionModel, maxToolSteps, requestId } = validation.data;
+    const abortController = trackGeneration(requestId, res);
+    const conversation = await findConversation(conversationId);
 
-      await db.messages.updateOne(
-        { _id: toObjectId(assistantMessageId) as any },
-        {
-          $set: {
-            content: finalContent,
-            metadata: finalMetadata,
-            updatedAt: new Date()
-          }
-        }
-      );
+    const original = await memoryService.getMessage(conversationId, messageId);
+    if (!original || original.role !== 'user') {
+      throw new AppError(404, 'User message not found');
+    }
+
+    const data = await generateReply({
+      conversation,
+      message,
+      images: images ?? original.images,
+      resources: original.metadata?.attachedResources?.map(({ serverId, uri }) => ({ serverId, uri })),
+      model,
+      visionModel,
+      maxToolSteps,
+      clientId: req.get('x-client-id'),
+      parentId: original.parentId ?? null,
+    }, abortController.signal);
+
+    if (!res.destroyed) {
+      res.json({
+        success: true,
+        data,
+        timestamp: new Date(),
+      });
+    }
+  } catch (error) {
+    next(error);
+  }
+});
 
-      console.log(`✅ [ChatAPI] Assistant message updated with ${artifactResult.artifactCount} artifacts`);
+// Stop a generation started by /stream, /send, /regenerate or /edit. The request that started it
+// still answers, with the partial text and metadata.cancelled set.
+router.post('/cancel/:requestId', (req, res, next) => {
+  try {
+    const controller = activeGenerations.get(req.params.requestId);
+    if (!controller) {
+      throw new AppError(404, 'No generation in progress for this request');
     }
 
-    // Update conversation
-    await db.conversations.updateOne(
-      { _id: toObjectId(convId) as any },
-      {
-        $set: { updatedAt: new Date() },
-        $inc: { messageCount: 2 },
-      }
-    );
+    controller.abort();
+    activeGenerations.delete(req.params.requestId);
 
-    // ENHANCED: Return response with proper conversation object and thinking data
     res.json({
       success: true,
-      data: {
-        conversation,
-        conversationId: convId,
-        message: finalContent,
-        metadata: finalMetadata,
-        // NEW: Include multi-artifact information in response
-        artifacts: artifactResult.hasArtifact ? artifactResult.artifacts : undefined,
-        artifactCount: artifactResult.artifactCount,
-        // Legacy artifact information for backward compatibility
-        artifact: artifactResult.hasArtifact ? {
-          id: artifactResult.artifacts[0]?.artifactId,
-          type: artifactResult.artifacts[0]?.artifactType
-        } : undefined,
-        // ENHANCED: Include thinking data in response
-        thinking: thinkingData,
-        originalContentWithThinking: thinkingResult.hasThinking ? assistantContent : undefined
-      },
-      timestamp: new Date(),
+      message: 'Generation cancelled',
     });
   } catch (error) {
     next(error);
@@ -1175,15 +1608,10 @@ router.get('/conversations/:id/messages', async (req, res, next) => {
     const skip = (Number(page) - 1) * Number(limit);
     const conversationId = req.params.id;
 
-    const [messages, total] = await Promise.all([
-      db.messages
-        .find({ conversationId })
-        .sort({ createdAt: 1 })
-        .skip(skip)
-        .limit(Number(limit))
-        .toArray(),
-      db.messages.countDocuments({ conversationId }),
-    ]);
+    // Only the active branch is shown; other branches are reached through message.branch
+    const branch = await memoryService.getActiveBranch(conversationId);
+    const messages = branch.slice(skip, skip + Number(limit));
+    const total = branch.length;
 
     // NEW: Fetch artifacts for this conversation
     console.log(`📋 [ChatAPI] Fetching artifacts for conversation: ${conversationId}`);
@@ -1199,7 +1627,7 @@ router.get('/conversations/:id/messages', async (req, res, next) => {
     res.json({
       success: true,
       data: {
-        messages: messages.map(formatMessage),
+        messages,
         artifacts: artifacts // NEW: Include artifacts in response
       },
       page: Number(page),
@@ -1213,6 +1641,113 @@ router.get('/conversations/:id/messages', async (req, res, next) => {
   }
 });
 
+// Switch to the branch through a message, e.g. a sibling picked with the "< 2/3 >" control
+router.put('/conversations/:id/branch', async (req, res, next) => {
+  try {
+    const conversationId = req.params.id;
+
+    const validation = selectBranchSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(400, 'messageId is required');
+    }
+
+    await findConversation(conversationId);
+    const messages = await memoryService.selectBranch(conversationId, validation.data.messageId);
+    if (!messages) {
+      throw new AppError(404, 'Message not found');
+    }
+
+    res.json({
+      success: true,
+      data: { conversationId, messages },
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Set the tool set used by a conversation (null follows the active tool set)
+router.put('/conversations/:id/tool-set', async (req, res, next) => {
+  try {
+    const conversationId = req.params.id;
+    
+    const validation = conversationToolSetSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(400, 'toolSetId must be a string or null');
+    }
+    
+    const { toolSetId } = validation.data;
+    if (toolSetId && !ToolSelectionService.getInstance().getToolSet(toolSetId)) {
+      throw new AppError(404, 'Tool set not found');
+    }
+    
+    const result = await db.conversations.updateOne(
+      { _id: toObjectId(conversationId) as any },
+      toolSetId
+        ? { $set: { toolSetId, updatedAt: new Date() } }
+        : { $unset: { toolSetId: '' }, $set: { updatedAt: new Date() } }
+    );
+    if (result.matchedCount === 0) {
+      throw new AppError(404, 'Conversation not found');
+    }
+    
+    res.json({
+      success: true,
+      data: { conversationId, toolSetId },
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Switch a conversation's persona (null: none) and optionally override its system prompt
+// (null: use the persona's). The persona's tool set, if any, becomes the conversation's.
+router.put('/conversations/:id/persona', async (req, res, next) => {
+  try {
+    const conversationId = req.params.id;
+
+    const validation = conversationPersonaSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(400, 'personaId must be a string or null');
+    }
+
+    const { personaId, systemPrompt } = validation.data;
+    const persona = getPersona(personaId ?? undefined);
+
+    const $set: Partial<Conversation> = { updatedAt: new Date() };
+    const $unset: Partial<Record<keyof Conversation, ''>> = {};
+    if (persona) {
+      $set.personaId = persona._id;
+      if (persona.toolSetId) $set.toolSetId = persona.toolSetId;
+    } else {
+      $unset.personaId = '';
+    }
+    if (systemPrompt) {
+      $set.systemPrompt = systemPrompt;
+    } else if (systemPrompt === null) {
+      $unset.systemPrompt = '';
+    }
+
+    const result = await db.conversations.updateOne(
+      { _id: toObjectId(conversationId) as any },
+      Object.keys($unset).length ? { $set, $unset } : { $set }
+    );
+    if (result.matchedCount === 0) {
+      throw new AppError(404, 'Conversation not found');
+    }
+
+    res.json({
+      success: true,
+      data: await findConversation(conversationId),
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get conversation memory stats
 router.get('/conversations/:id/memory-stats', async (req, res, next) => {
   try {
@@ -1308,6 +1843,7 @@ router.delete('/conversations/:id', async (req, res, next) => {
     if (result.deletedCount === 0) {
       throw new AppError(404, 'Conversation not found');
     }
+    HILManager.getInstance().clearConversationApprovals(conversationId);
 
     res.json({
       success: true,
@@ -1,6 +1,8 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import * as fs from 'fs';
 import * as path from 'path';
+import { MCPManager } from '../services/MCPManager';
+import { AppError } from '../middleware/errorHandler';
 
 const router = Router();
 
@@ -24,13 +26,17 @@ router.get('/templates', (_req: Request, res: Response, next: NextFunction) => {
   }
 });
 
-// Save config
-router.post('/save', (req: Request, res: Response, next: NextFunction) => {
+// Save config and apply it to the running MCP servers
+router.post('/save', async (req: Request, res: Response, next: NextFunction) => {
   try {
+    if (!req.body || typeof req.body.mcpServers !== 'object' || req.body.mcpServers === null) {
+      throw new AppError(400, 'Configuration must contain an "mcpServers" object');
+    }
     ensureConfigDir();
     const configPath = path.join(process.cwd(), 'mcp-config.json');
     fs.writeFileSync(configPath, JSON.stringify(req.body, null, 2));
-    res.json({ success: true, message: 'Configuration saved' });
+    const reconcile = await MCPManager.getInstance().reloadConfig();
+    res.json({ success: true, message: 'Configuration saved', data: { config: req.body, reconcile } });
   } catch (error) {
     next(error);
   }
@@ -56,7 +62,7 @@ router.get('/active', (_req: Request, res: Response, next: NextFunction) => {
 });
 
 // Load template
-router.post('/load-template', (req: Request, res: Response, next: NextFunction) => {
+router.post('/load-template', async (req: Request, res: Response, next: NextFunction) => {
   try {
     ensureConfigDir();
     const { templateName } = req.body;
@@ -73,8 +79,9 @@ router.post('/load-template', (req: Request, res: Response, next: NextFunction)
     // Save as active config
     const configPath = path.join(process.cwd(), 'mcp-config.json');
     fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+    const reconcile = await MCPManager.getInstance().reloadConfig();
     
-    res.json({ success: true, data: config, message: 'Template loaded and saved as active configuration' });
+    res.json({ success: true, message: 'Template loaded and saved as active configuration', data: { config, reconcile } });
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,203 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { HILAuditService, HIL_AUDIT_CSV_COLUMNS } from '../services/HILAuditService';
+import { HILManager } from '../services/HILManager';
+import { HILPolicyService } from '../services/HILPolicyService';
+import { AppError } from '../middleware/errorHandler';
+
+const router = Router();
+
+const MAX_EXPORT_ROWS = 100000;
+
+// Validation schemas
+const regexSchema = z.string().min(1).refine(pattern => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid regular expression');
+
+const policySchema = z.object({
+  action: z.enum(['allow', 'deny', 'ask']),
+  serverId: z.string().min(1).optional(),
+  toolName: z.string().min(1).optional(),
+  argumentPatterns: z.record(regexSchema).optional(),
+  priority: z.number().int().optional(),
+  timeoutMs: z.number().int().min(1000).max(3600000).optional(),
+  description: z.string().max(200).optional()
+});
+
+const evaluateSchema = z.object({
+  serverId: z.string().min(1),
+  toolName: z.string().min(1),
+  arguments: z.record(z.unknown()).optional()
+});
+
+const auditQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  toolName: z.string().optional(),
+  serverId: z.string().optional(),
+  conversationId: z.string().optional(),
+  decision: z.enum(['approved', 'rejected', 'timeout']).optional(),
+  source: z.enum(['user', 'policy', 'conversation', 'timeout', 'cancelled']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(['json', 'csv', 'jsonl']).default('json')
+});
+
+/**
+ * HIL status and pending approvals
+ */
+router.get('/status', (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      ...HILManager.getInstance().getStats(),
+      policies: HILPolicyService.getInstance().list().length
+    }
+  });
+});
+
+/**
+ * List policies in evaluation order
+ */
+router.get('/policies', (req, res) => {
+  res.json({
+    success: true,
+    data: HILPolicyService.getInstance().list()
+  });
+});
+
+/**
+ * Create a policy
+ */
+router.post('/policies', async (req, res, next) => {
+  try {
+    const validated = policySchema.parse(req.body);
+    const policy = await HILPolicyService.getInstance().create(validated);
+
+    res.json({
+      success: true,
+      data: policy
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid policy: ' + error.errors.map(e => e.message).join(', ')));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Update a policy
+ */
+router.put('/policies/:id', async (req, res, next) => {
+  try {
+    const validated = policySchema.partial().parse(req.body);
+    const policy = await HILPolicyService.getInstance().update(req.params.id, validated);
+    if (!policy) {
+      throw new AppError(404, 'Policy not found');
+    }
+
+    res.json({
+      success: true,
+      data: policy
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid policy: ' + error.errors.map(e => e.message).join(', ')));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Delete a policy
+ */
+router.delete('/policies/:id', async (req, res, next) => {
+  try {
+    if (!await HILPolicyService.getInstance().remove(req.params.id)) {
+      throw new AppError(404, 'Policy not found');
+    }
+
+    res.json({
+      success: true,
+      message: 'Policy deleted'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Show which policy would apply to a tool call, without running it
+ */
+router.post('/policies/evaluate', (req, res, next) => {
+  try {
+    const validated = evaluateSchema.parse(req.body);
+    const decision = HILPolicyService.getInstance().evaluate(validated);
+
+    res.json({
+      success: true,
+      data: decision
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid request'));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Query the audit trail of HIL decisions, newest first. With format=csv or
+ * format=jsonl, all matching entries are exported as a download instead.
+ */
+router.get('/audit', async (req, res, next) => {
+  try {
+    const { page, limit, format, ...filters } = auditQuerySchema.parse(req.query);
+    const audit = HILAuditService.getInstance();
+
+    if (format === 'json') {
+      const { entries, total } = await audit.query(filters, page, limit);
+      res.json({
+        success: true,
+        data: entries,
+        page,
+        pageSize: limit,
+        total,
+        hasMore: (page - 1) * limit + entries.length < total,
+        timestamp: new Date()
+      });
+      return;
+    }
+
+    const filename = `hil-audit-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'csv') {
+      res.write(HIL_AUDIT_CSV_COLUMNS.join(',') + '\n');
+    }
+    for await (const entry of audit.stream(filters, MAX_EXPORT_ROWS)) {
+      res.write((format === 'csv' ? audit.toCsvRow(entry) : JSON.stringify(entry)) + '\n');
+    }
+    res.end();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid audit query: ' + error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')));
+    } else if (res.headersSent) {
+      res.end();
+    } else {
+      next(error);
+    }
+  }
+});
+
+export { router as hilRouter };
@@ -1,5 +1,8 @@
 import { Router } from 'express';
 import { MCPManager } from '../services/MCPManager';
+import { ToolOverrideService } from '../services/ToolOverrideService';
+import { ToolResultCache } from '../services/ToolResultCache';
+import { ToolSelectionService } from '../services/ToolSelectionService';
 import { AppError } from '../middleware/errorHandler';
 import { z } from 'zod';
 import { logger } from '../utils/logger';
@@ -13,7 +16,49 @@ const mcp = MCPManager.getInstance();
 const invokeToolSchema = z.object({
   serverId: z.string(),
   toolName: z.string(),  
-  arguments: z.record(z.unknown()).optional()
+  arguments: z.record(z.unknown()).optional(),
+  fallbackStrategy: z.enum(['none', 'any', 'priority']).optional(),
+  preferredServerIds: z.array(z.string()).optional()
+});
+
+const getPromptSchema = z.object({
+  serverId: z.string().min(1),
+  name: z.string().min(1),
+  arguments: z.record(z.string()).optional()
+});
+
+const completeSchema = z.object({
+  serverId: z.string().min(1),
+  ref: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('ref/prompt'), name: z.string().min(1) }),
+    z.object({ type: z.literal('ref/resource'), uri: z.string().min(1) })
+  ]),
+  argument: z.object({
+    name: z.string().min(1),
+    value: z.string()
+  }),
+  context: z.object({
+    arguments: z.record(z.string()).optional()
+  }).optional()
+});
+
+const readResourceSchema = z.object({
+  serverId: z.string().min(1),
+  uri: z.string().min(1)
+});
+
+const toolOverrideSchema = z.object({
+  description: z.string().optional(),
+  parameterDescriptions: z.record(z.string()).optional(),
+  examples: z.array(z.string()).optional()
+});
+
+const toolOverridesSchema = z.record(toolOverrideSchema);
+
+const toolSetSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  description: z.string().max(200).optional(),
+  tools: z.array(z.string()).optional()
 });
 
 /**
@@ -32,7 +77,7 @@ router.get('/status', (req, res) => {
         id: s.id,
         name: s.name,
         status: s.status,
-        transport: s.transport
+        transport: s.transportType
       }))
     }
   });
@@ -69,6 +114,147 @@ router.get('/tools', async (req, res, next) => {
   }
 });
 
+/**
+ * List resources, optionally for a single server
+ */
+router.get('/resources', async (req, res, next) => {
+  try {
+    const serverId = typeof req.query.serverId === 'string' ? req.query.serverId : undefined;
+    const resources = await mcp.listResources(serverId);
+    
+    res.json({
+      success: true,
+      data: {
+        resources,
+        count: resources.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * List resource templates, optionally for a single server
+ */
+router.get('/resources/templates', async (req, res, next) => {
+  try {
+    const serverId = typeof req.query.serverId === 'string' ? req.query.serverId : undefined;
+    const templates = await mcp.listResourceTemplates(serverId);
+    
+    res.json({
+      success: true,
+      data: {
+        templates,
+        count: templates.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Read a resource's contents
+ */
+router.get('/resources/read', async (req, res, next) => {
+  try {
+    const validated = readResourceSchema.parse(req.query);
+    
+    if (!mcp.getServers().has(validated.serverId)) {
+      throw new AppError(404, `Server ${validated.serverId} not found`);
+    }
+    
+    const contents = await mcp.readResource(validated.serverId, validated.uri);
+    
+    res.json({
+      success: true,
+      data: {
+        uri: validated.uri,
+        contents
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'serverId and uri are required'));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * List prompts, optionally for a single server
+ */
+router.get('/prompts', async (req, res, next) => {
+  try {
+    const serverId = typeof req.query.serverId === 'string' ? req.query.serverId : undefined;
+    const prompts = await mcp.listPrompts(serverId);
+    
+    res.json({
+      success: true,
+      data: {
+        prompts,
+        count: prompts.length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Render a prompt with arguments
+ */
+router.post('/prompts/get', async (req, res, next) => {
+  try {
+    const validated = getPromptSchema.parse(req.body);
+    
+    if (!mcp.getServers().has(validated.serverId)) {
+      throw new AppError(404, `Server ${validated.serverId} not found`);
+    }
+    
+    const prompt = await mcp.getPrompt(validated.serverId, validated.name, validated.arguments);
+    
+    res.json({
+      success: true,
+      data: prompt
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'serverId and name are required'));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Complete a prompt argument or resource template variable
+ */
+router.post('/complete', async (req, res, next) => {
+  try {
+    const { serverId, ...request } = completeSchema.parse(req.body);
+    
+    if (!mcp.getServers().has(serverId)) {
+      throw new AppError(404, `Server ${serverId} not found`);
+    }
+    
+    const result = await mcp.complete(serverId, request);
+    
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid completion request'));
+    } else {
+      next(error);
+    }
+  }
+});
+
 /**
  * Call a tool
  */
@@ -79,7 +265,9 @@ router.post('/tools/call', async (req, res, next) => {
     const result = await mcp.callTool({
       serverId: validated.serverId,
       toolName: validated.toolName,
-      arguments: validated.arguments || {}
+      arguments: validated.arguments || {},
+      fallbackStrategy: validated.fallbackStrategy,
+      preferredServerIds: validated.preferredServerIds
     });
     
     res.json({
@@ -105,7 +293,9 @@ router.post('/invoke', async (req, res, next) => {
     const result = await mcp.invokeTool({
       serverId: validated.serverId,
       toolName: validated.toolName,
-      arguments: validated.arguments || {}
+      arguments: validated.arguments || {},
+      fallbackStrategy: validated.fallbackStrategy,
+      preferredServerIds: validated.preferredServerIds
     });
     
     res.json(result);
@@ -118,6 +308,196 @@ router.post('/invoke', async (req, res, next) => {
   }
 });
 
+/**
+ * Get tool description overrides, keyed by qualified tool name
+ */
+router.get('/tool-overrides', (req, res) => {
+  res.json({
+    success: true,
+    data: ToolOverrideService.getInstance().getAll()
+  });
+});
+
+/**
+ * Replace all tool description overrides
+ */
+router.put('/tool-overrides', async (req, res, next) => {
+  try {
+    const overrides = toolOverridesSchema.parse(req.body);
+    const service = ToolOverrideService.getInstance();
+    await service.replaceAll(overrides);
+    
+    res.json({
+      success: true,
+      data: service.getAll()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid tool overrides'));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Set the override for a single tool
+ */
+router.put('/tool-overrides/:toolName', async (req, res, next) => {
+  try {
+    const override = toolOverrideSchema.parse(req.body);
+    const service = ToolOverrideService.getInstance();
+    await service.set(req.params.toolName, override);
+    
+    res.json({
+      success: true,
+      data: service.get(req.params.toolName)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid tool override'));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Remove the override for a single tool
+ */
+router.delete('/tool-overrides/:toolName', async (req, res, next) => {
+  try {
+    const removed = await ToolOverrideService.getInstance().remove(req.params.toolName);
+    if (!removed) {
+      throw new AppError(404, `No override for tool ${req.params.toolName}`);
+    }
+    
+    res.json({
+      success: true,
+      message: 'Tool override removed'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * List tool sets and the active one
+ */
+router.get('/tool-sets', (req, res) => {
+  const toolSelection = ToolSelectionService.getInstance();
+  
+  res.json({
+    success: true,
+    data: {
+      toolSets: toolSelection.listToolSets(),
+      activeToolSetId: toolSelection.getActiveToolSetId()
+    }
+  });
+});
+
+/**
+ * Create a tool set, from the current selection unless tools are given
+ */
+router.post('/tool-sets', async (req, res, next) => {
+  try {
+    const validated = toolSetSchema.parse(req.body);
+    const toolSelection = ToolSelectionService.getInstance();
+    
+    if (toolSelection.listToolSets().some(set => set.name === validated.name)) {
+      throw new AppError(409, `Tool set ${validated.name} already exists`);
+    }
+    
+    const toolSet = await toolSelection.createToolSet(validated);
+    
+    res.json({
+      success: true,
+      data: toolSet
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid tool set'));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Rename a tool set or replace its tools
+ */
+router.put('/tool-sets/:id', async (req, res, next) => {
+  try {
+    const validated = toolSetSchema.partial().parse(req.body);
+    const toolSelection = ToolSelectionService.getInstance();
+    
+    if (validated.name && toolSelection.listToolSets().some(set => set.name === validated.name && set._id !== req.params.id)) {
+      throw new AppError(409, `Tool set ${validated.name} already exists`);
+    }
+    
+    const toolSet = await toolSelection.updateToolSet(req.params.id, validated);
+    if (!toolSet) {
+      throw new AppError(404, 'Tool set not found');
+    }
+    
+    res.json({
+      success: true,
+      data: toolSet
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid tool set'));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Delete a tool set; the last one cannot be deleted
+ */
+router.delete('/tool-sets/:id', async (req, res, next) => {
+  try {
+    const toolSelection = ToolSelectionService.getInstance();
+    if (!toolSelection.getToolSet(req.params.id)) {
+      throw new AppError(404, 'Tool set not found');
+    }
+    
+    if (!await toolSelection.deleteToolSet(req.params.id)) {
+      throw new AppError(400, 'The last tool set cannot be deleted');
+    }
+    
+    res.json({
+      success: true,
+      message: 'Tool set deleted'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Make a tool set the active selection
+ */
+router.post('/tool-sets/:id/activate', async (req, res, next) => {
+  try {
+    const toolSelection = ToolSelectionService.getInstance();
+    if (!await toolSelection.activateToolSet(req.params.id)) {
+      throw new AppError(404, 'Tool set not found');
+    }
+    
+    res.json({
+      success: true,
+      data: {
+        activeToolSetId: toolSelection.getActiveToolSetId(),
+        enabledTools: toolSelection.getStats().enabledTools
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * Add a new server
  */
@@ -170,7 +550,37 @@ router.delete('/servers/:serverId', async (req, res, next) => {
  */
 
 
+/**
+ * Tool invocation metrics as JSON, or in the Prometheus text format
+ * with ?format=prometheus (or an Accept header preferring text/plain)
+ */
+router.get('/metrics', (req, res) => {
+  const wantsPrometheus = req.query.format === 'prometheus' ||
+    (req.query.format === undefined && req.accepts(['application/json', 'text/plain']) === 'text/plain');
+
+  if (wantsPrometheus) {
+    res.type('text/plain; version=0.0.4').send(mcp.getPrometheusMetrics());
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: mcp.getMetrics()
+  });
+});
+
 // MCP Health Monitoring Endpoint
+router.get('/health', (req, res) => {
+  const limit = parseInt(req.query.limit as string) || 50;
+
+  res.json({
+    success: true,
+    data: {
+      servers: mcp.getServerHealth(),
+      recoveryEvents: mcp.getRecoveryEvents(limit)
+    }
+  });
+});
 
 // MCP Diagnostic Endpoint
 router.get("/diagnostics", async (req, res) => {
@@ -188,7 +598,9 @@ router.get("/diagnostics", async (req, res) => {
         memoryUsage: process.memoryUsage()
       },
       recentShutdowns: shutdowns,
-      recentErrors: errors
+      recentErrors: errors,
+      recoveryEvents: mcp.getRecoveryEvents(20),
+      toolCache: ToolResultCache.getInstance().getStats()
     });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
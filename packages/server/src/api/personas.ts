@@ -0,0 +1,201 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PersonaService, MAX_SYSTEM_PROMPT_LENGTH } from '../services/PersonaService';
+import { ToolSelectionService } from '../services/ToolSelectionService';
+import { AppError } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Validation schemas
+const samplingSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  top_p: z.number().min(0).max(1).optional(),
+  seed: z.number().int().optional(),
+  num_ctx: z.number().int().min(512).optional()
+});
+
+const personaFields = {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  systemPrompt: z.string().min(1).max(MAX_SYSTEM_PROMPT_LENGTH),
+  defaultModel: z.string().min(1).optional(),
+  sampling: samplingSchema.optional()
+};
+
+const personaSchema = z.object({
+  ...personaFields,
+  toolSetId: z.string().min(1).optional()
+});
+
+const importSchema = z.object({
+  personas: z.array(z.object({
+    ...personaFields,
+    toolSet: z.string().min(1).optional()
+  })).min(1).max(500),
+  onConflict: z.enum(['rename', 'replace', 'skip']).default('rename')
+});
+
+const exportQuerySchema = z.object({
+  ids: z.string().optional()
+});
+
+function formatZodError(error: z.ZodError): string {
+  return error.errors.map(e => `${e.path.join('.') || 'body'}: ${e.message}`).join(', ');
+}
+
+function assertToolSet(toolSetId?: string): void {
+  if (toolSetId && !ToolSelectionService.getInstance().getToolSet(toolSetId)) {
+    throw new AppError(400, 'Tool set not found');
+  }
+}
+
+function assertNameAvailable(name: string | undefined, id?: string): void {
+  const existing = name ? PersonaService.getInstance().findByName(name) : undefined;
+  if (existing && existing._id !== id) {
+    throw new AppError(409, `A persona named "${name}" already exists`);
+  }
+}
+
+/**
+ * List personas, ordered by name
+ */
+router.get('/', (req, res) => {
+  res.json({
+    success: true,
+    data: PersonaService.getInstance().list(),
+    timestamp: new Date()
+  });
+});
+
+/**
+ * Download personas as JSON, all of them or the comma-separated ids
+ */
+router.get('/export', (req, res, next) => {
+  try {
+    const { ids } = exportQuerySchema.parse(req.query);
+    const data = PersonaService.getInstance().export(ids ? ids.split(',').filter(Boolean) : undefined);
+
+    const filename = `personas-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.json(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid export query: ' + formatZodError(error)));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Import personas from an export. Name clashes are renamed by default.
+ */
+router.post('/import', async (req, res, next) => {
+  try {
+    const { personas, onConflict } = importSchema.parse(req.body);
+    const result = await PersonaService.getInstance().import(personas, onConflict);
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid persona export: ' + formatZodError(error)));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Get a persona
+ */
+router.get('/:id', (req, res, next) => {
+  const persona = PersonaService.getInstance().get(req.params.id);
+  if (!persona) {
+    next(new AppError(404, 'Persona not found'));
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: persona,
+    timestamp: new Date()
+  });
+});
+
+/**
+ * Create a persona
+ */
+router.post('/', async (req, res, next) => {
+  try {
+    const validated = personaSchema.parse(req.body);
+    assertToolSet(validated.toolSetId);
+    assertNameAvailable(validated.name);
+
+    const persona = await PersonaService.getInstance().create(validated);
+
+    res.json({
+      success: true,
+      data: persona,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid persona: ' + formatZodError(error)));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Update a persona
+ */
+router.put('/:id', async (req, res, next) => {
+  try {
+    const validated = personaSchema.partial().parse(req.body);
+    assertToolSet(validated.toolSetId);
+    assertNameAvailable(validated.name, req.params.id);
+
+    const persona = await PersonaService.getInstance().update(req.params.id, validated);
+    if (!persona) {
+      throw new AppError(404, 'Persona not found');
+    }
+
+    res.json({
+      success: true,
+      data: persona,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      next(new AppError(400, 'Invalid persona: ' + formatZodError(error)));
+    } else {
+      next(error);
+    }
+  }
+});
+
+/**
+ * Delete a persona
+ */
+router.delete('/:id', async (req, res, next) => {
+  try {
+    if (!await PersonaService.getInstance().remove(req.params.id)) {
+      throw new AppError(404, 'Persona not found');
+    }
+
+    res.json({
+      success: true,
+      message: 'Persona deleted',
+      timestamp: new Date()
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as personasRouter };
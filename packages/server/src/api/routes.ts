@@ -6,6 +6,8 @@ import { router as configRouter } from "./config";
 import { modelsRouter } from './models';
 import { progressiveRouter } from './progressive';
 import { mcpRouter } from './mcp';
+import { hilRouter } from './hil';
+import { personasRouter } from './personas';
 import { artifactsRouter } from './artifacts'; // Existing artifacts router
 import { multiHostRouter } from './multihost'; // NEW: Multi-host coordination router
 
@@ -19,6 +21,8 @@ router.use('/config', configRouter);
 router.use('/models', modelsRouter);
 router.use('/progressive', progressiveRouter);
 router.use('/mcp', mcpRouter);
+router.use('/hil', hilRouter);
+router.use('/personas', personasRouter);
 router.use('/artifacts', artifactsRouter); // Existing artifacts endpoints
 router.use('/multihost', multiHostRouter); // NEW: Multi-host coordination endpoints
 
@@ -1,4 +1,5 @@
 import { Socket } from 'socket.io';
+import { HILApprovalScope } from '@olympian/shared';
 import { HILManager } from '../services/HILManager';
 import { ToolSelectionService } from '../services/ToolSelectionService';
 import { logger } from '../utils/logger';
@@ -10,9 +11,17 @@ export function registerHILHandlers(socket: Socket): void {
   const hilManager = HILManager.getInstance();
   
   // HIL approval handler
-  socket.on('hil:approve', (data: { requestId: string }) => {
-    logger.info('HIL approval received for ' + data.requestId);
-    hilManager.processUserResponse(data.requestId, true);
+  socket.on('hil:approve', (data: { requestId: string; scope?: HILApprovalScope; arguments?: Record<string, unknown> }) => {
+    logger.info('HIL approval received for ' + data.requestId + (data.scope ? ' (' + data.scope + ')' : ''));
+    const result = hilManager.processUserResponse(data.requestId, true, {
+      scope: data.scope,
+      arguments: data.arguments,
+      respondent: hilManager.getRespondent(socket)
+    });
+    if (!result.success) {
+      socket.emit('hil:error', { requestId: data.requestId, error: result.error });
+      return;
+    }
     
     socket.emit('hil:response', {
       requestId: data.requestId,
@@ -23,7 +32,13 @@ export function registerHILHandlers(socket: Socket): void {
   // HIL rejection handler
   socket.on('hil:reject', (data: { requestId: string }) => {
     logger.info('HIL rejection received for ' + data.requestId);
-    hilManager.processUserResponse(data.requestId, false);
+    const result = hilManager.processUserResponse(data.requestId, false, {
+      respondent: hilManager.getRespondent(socket)
+    });
+    if (!result.success) {
+      socket.emit('hil:error', { requestId: data.requestId, error: result.error });
+      return;
+    }
     
     socket.emit('hil:response', {
       requestId: data.requestId,
@@ -50,7 +65,8 @@ export function registerHILHandlers(socket: Socket): void {
   
   // Get pending HIL requests
   socket.on('hil:get_pending', () => {
-    const pending = hilManager.getPendingRequests();
+    const respondent = hilManager.getRespondent(socket);
+    const pending = hilManager.getPendingRequests().filter(request => hilManager.canRespond(request, respondent));
     socket.emit('hil:pending_requests', {
       requests: pending
     });
@@ -189,6 +205,27 @@ export function registerMCPStatusHandlers(socket: Socket): void {
     socket.emit('mcp:status', { servers });
   });
   
+  // Abort a running tool call made for this socket's client tab (or, without one, its conversation)
+  socket.on('tool:cancel', (data: { toolCallId: string }) => {
+    const owner = mcpManager.getToolCallOwner(data.toolCallId);
+    if (!owner) {
+      logger.info('Tool call ' + data.toolCallId + ' is not running');
+      return;
+    }
+    
+    const { clientId, conversationIds } = HILManager.getInstance().getRespondent(socket);
+    const isOwner = owner.clientId
+      ? owner.clientId === clientId
+      : !!owner.conversationId && !!conversationIds?.includes(owner.conversationId);
+    if (!isOwner) {
+      logger.warn('Tool call ' + data.toolCallId + ': cancel from ' + socket.id + ' ignored, it belongs to another client');
+      return;
+    }
+    
+    mcpManager.cancelToolCall(data.toolCallId);
+    logger.info('Tool call ' + data.toolCallId + ' cancelled');
+  });
+  
   // Get tools list with enable/disable state
   socket.on('tools:request-list', async () => {
     const toolSelection = ToolSelectionService.getInstance();
@@ -207,40 +244,34 @@ export function registerMCPStatusHandlers(socket: Socket): void {
           id: tool.name,
           name: tool.name,
           description: tool.description,
-          enabled: selectionState.servers.find(s => s.id === serverId)?.tools.find(t => t.name === tool.name)?.enabled || false
+          // Selection state is keyed by qualified name
+          enabled: selectionState.servers.find(s => s.id === serverId)?.tools.find(t => t.name === `${serverId}.${tool.name}`)?.enabled || false
         }))
       };
     });
     
-    socket.emit('tools:list', { servers });
+    socket.emit('tools:list', {
+      servers,
+      toolSets: toolSelection.listToolSets(),
+      activeToolSetId: toolSelection.getActiveToolSetId()
+    });
   });
   
   // Enable specific tool
   socket.on('tools:enable', (data: { toolId: string }) => {
-    const toolSelection = ToolSelectionService.getInstance();
-    const enabled = toolSelection.toggleTool(data.toolId);
-    if (!enabled) {
-      // Toggle again to ensure it's enabled
-      toolSelection.toggleTool(data.toolId);
-    }
+    ToolSelectionService.getInstance().setToolEnabled(data.toolId, true);
     socket.emit('tools:updated', { toolId: data.toolId, enabled: true });
   });
   
   // Disable specific tool  
   socket.on('tools:disable', (data: { toolId: string }) => {
-    const toolSelection = ToolSelectionService.getInstance();
-    const enabled = toolSelection.toggleTool(data.toolId);
-    if (enabled) {
-      // Toggle again to ensure it's disabled
-      toolSelection.toggleTool(data.toolId);
-    }
+    ToolSelectionService.getInstance().setToolEnabled(data.toolId, false);
     socket.emit('tools:updated', { toolId: data.toolId, enabled: false });
   });
   
-  // Toggle server tools
+  // Enable or disable all tools of a server
   socket.on('tools:server:toggle', (data: { serverId: string, enabled: boolean }) => {
-    const toolSelection = ToolSelectionService.getInstance();
-    toolSelection.toggleServer(data.serverId);
+    ToolSelectionService.getInstance().setServerEnabled(data.serverId, data.enabled);
     socket.emit('tools:server:updated', { serverId: data.serverId, enabled: data.enabled });
   });
 }
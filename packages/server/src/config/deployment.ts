@@ -23,7 +23,8 @@ export interface DeploymentConfig {
     subnet: string;
     discoveryInterval: number;
   };
-      systemPrompt: undefined,  modelCapability: {
+  systemPrompt?: string; // Default system prompt, from SYSTEM_PROMPT
+  modelCapability: {
     mode: ModelCapabilityMode;
   };
 }
@@ -90,7 +91,8 @@ export function getDeploymentConfig(): DeploymentConfig {
         subnet: 'localhost',
         discoveryInterval: 300000,
       },
-      systemPrompt: undefined,      modelCapability: {
+      systemPrompt: process.env.SYSTEM_PROMPT || undefined,
+      modelCapability: {
         mode: modelCapabilityMode,
       },
     };
@@ -120,7 +122,8 @@ export function getDeploymentConfig(): DeploymentConfig {
         subnet: 'bridge',
         discoveryInterval: 300000,
       },
-      systemPrompt: undefined,      modelCapability: {
+      systemPrompt: process.env.SYSTEM_PROMPT || undefined,
+      modelCapability: {
         mode: modelCapabilityMode,
       },
     };
@@ -151,7 +154,8 @@ export function getDeploymentConfig(): DeploymentConfig {
         subnet: 'bridge',
         discoveryInterval: 300000,
       },
-      systemPrompt: undefined,      modelCapability: {
+      systemPrompt: process.env.SYSTEM_PROMPT || undefined,
+      modelCapability: {
         mode: modelCapabilityMode,
       },
     };
@@ -194,7 +198,8 @@ export function getDeploymentConfig(): DeploymentConfig {
         subnet: process.env.SERVICE_DISCOVERY_SUBNET || '192.168.1.0/24',
         discoveryInterval: parseInt(process.env.SERVICE_DISCOVERY_INTERVAL || '300000'),
       },
-      systemPrompt: undefined,      modelCapability: {
+      systemPrompt: process.env.SYSTEM_PROMPT || undefined,
+      modelCapability: {
         mode: modelCapabilityMode,
       },
     };
@@ -247,7 +252,8 @@ export function getDeploymentConfig(): DeploymentConfig {
         subnet: process.env.SERVICE_DISCOVERY_SUBNET || '192.168.1.0/24',
         discoveryInterval: parseInt(process.env.SERVICE_DISCOVERY_INTERVAL || '300000'),
       },
-      systemPrompt: undefined,      modelCapability: {
+      systemPrompt: process.env.SYSTEM_PROMPT || undefined,
+      modelCapability: {
         mode: modelCapabilityMode,
       },
     };
@@ -15,10 +15,14 @@ import { modelProgressiveLoader } from './services/ModelProgressiveLoader';
 import { ArtifactService } from './services/ArtifactService';
 import { multiHostInit } from './services/MultiHostInitializationService';
 import { MCPManager } from './services/MCPManager';
+import { ToolOverrideService } from './services/ToolOverrideService';
 import { ToolNamespaceManager } from "./services/ToolNamespaceManager";
 import { EnhancedOllamaStreamliner } from "./services/EnhancedOllamaStreamliner";
 import { HILManager } from "./services/HILManager";
+import { HILAuditService } from "./services/HILAuditService";
+import { HILPolicyService } from "./services/HILPolicyService";
 import { ToolSelectionService } from "./services/ToolSelectionService";
+import { PersonaService } from "./services/PersonaService";
 
 import apiRoutes from './api/routes';
 import { errorHandler } from './middleware/errorHandler';
@@ -63,7 +67,7 @@ app.use(cors({
   origin: CLIENT_URL,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Client-Id'],
 }));
 
 // General middleware
@@ -111,6 +115,8 @@ async function initializeServices() {
     const scanner = ConnectionScanner.getInstance();
     await scanner.initialize();
 
+    // Load persona library
+    await PersonaService.getInstance().initialize();
 
     // Initialize multi-host services if enabled
     if (ENABLE_MULTI_HOST) {
@@ -141,10 +147,16 @@ async function initializeServices() {
         const toolSelection = ToolSelectionService.getInstance();
         const allTools = namespaceManager.getAllTools();
         toolSelection.initialize(allTools);
+        await toolSelection.loadToolSets();
+        
+        // Load user-edited tool descriptions
+        await ToolOverrideService.getInstance().initialize();
         
         // 4. Initialize HIL Manager
         const hilManager = HILManager.getInstance();
         hilManager.setEnabled(process.env.HIL_ENABLED === "true");
+        await HILPolicyService.getInstance().initialize();
+        await HILAuditService.getInstance().initialize();
         
         // 5. Initialize Enhanced Ollama Streamliner
         const streamliner = new EnhancedOllamaStreamliner();
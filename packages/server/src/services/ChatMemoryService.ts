@@ -1,22 +1,59 @@
-import { Message } from '@olympian/shared';
+import { Filter, ObjectId } from 'mongodb';
+import { ContextUsage, Conversation, ConversationMemoryStats, ConversationSummary, Message } from '@olympian/shared';
 import { DatabaseService } from './DatabaseService';
+import { getDeploymentConfig } from '../config/deployment';
 import { logger } from '../utils/logger';
 
 export interface MemoryConfig {
   maxMessages?: number; // Max number of messages to include in context
-  maxTokens?: number; // Max estimated tokens to include
+  maxTokens?: number; // Max estimated tokens to include, system prompt and summary included
   includeSystemPrompt?: boolean;
   systemPrompt?: string;
+  summarize?: boolean; // Stand in for messages older than the window with the conversation's summary
+  summarizer?: ConversationSummarizer; // Refreshes the summary; without one the stored summary is used as is
+  model?: string; // Model the history is for, whose calibrated token estimate is used
+}
+
+// Runs a summarization prompt with the conversation's model
+export type ConversationSummarizer = (prompt: string) => Promise<string>;
+
+// Characters of transcript sent per summarization call
+const SUMMARY_CHUNK_CHARS = 12000;
+const SUMMARY_MESSAGE_CHARS = 4000;
+
+// Token estimates start at 4 characters per token and are calibrated per
+// model from Ollama's prompt_eval_count. That count leaves out the prefix
+// Ollama served from its prompt cache, so samples outside the bounds, or with
+// a count well below the calibrated estimate, are ignored.
+const DEFAULT_CHARS_PER_TOKEN = 4;
+const MIN_CHARS_PER_TOKEN = 1.5;
+const MAX_CHARS_PER_TOKEN = 8;
+const CALIBRATION_WEIGHT = 0.3;
+const CACHED_PROMPT_RATIO = 0.8; // Counts below this share of the calibrated estimate are taken as partly cached
+const MESSAGE_OVERHEAD_TOKENS = 4; // Chat template tokens around each message
+const REPLY_RESERVE_RATIO = 0.25; // Share of the context window kept for the reply
+
+type PromptMessage = { content?: string };
+
+// A conversation's messages with ids as strings and every parent resolved
+interface MessageTree {
+  messages: Message[]; // oldest first
+  byId: Map<string, Message>;
+  children: Map<string | null, Message[]>; // null: first messages
 }
 
 export class ChatMemoryService {
   private static instance: ChatMemoryService;
   private db: DatabaseService;
+  private summarizing = new Set<string>(); // Conversations with a summary refresh running
+  private charsPerToken = new Map<string, number>(); // Calibrated per model
   private defaultConfig: MemoryConfig = {
     maxMessages: 20, // Default to last 20 messages
     maxTokens: 4000, // Reserve ~4k tokens for history
     includeSystemPrompt: true,
-    systemPrompt: 'You are a helpful AI assistant. You have access to conversation history to maintain context.',
+    systemPrompt: getDeploymentConfig().systemPrompt ||
+      'You are a helpful AI assistant. You have access to conversation history to maintain context.',
+    summarize: true,
   };
 
   private constructor() {
@@ -31,15 +68,22 @@ export class ChatMemoryService {
   }
 
   /**
-   * Get conversation history formatted for the model
+   * Get conversation history formatted for the model, from the branch ending
+   * at `leafId` (the active branch when unset, no history when null). The most
+   * recent messages that fit are included in full; older ones are represented
+   * by the conversation summary, which is refreshed in the background.
    */
   async getConversationHistory(
     conversationId: string,
-    config?: MemoryConfig
+    config?: MemoryConfig,
+    leafId?: string | null
   ): Promise<Array<{ role: string; content: string; images?: string[] }>> {
     const mergedConfig = { ...this.defaultConfig, ...config };
     const messages: Array<{ role: string; content: string; images?: string[] }> = [];
 
+    const model = mergedConfig.model;
+    let estimatedTokens = 0;
+
     try {
       // Add system prompt if configured
       if (mergedConfig.includeSystemPrompt && mergedConfig.systemPrompt) {
@@ -47,41 +91,51 @@ export class ChatMemoryService {
           role: 'system',
           content: mergedConfig.systemPrompt,
         });
+        estimatedTokens += this.estimateMessageTokens(mergedConfig.systemPrompt, model);
       }
 
-      // Fetch messages from database
-      const dbMessages = await this.db.messages
-        .find({ conversationId })
-        .sort({ createdAt: -1 }) // Get newest first
-        .limit(mergedConfig.maxMessages!)
-        .toArray();
+      const branch = await this.getActiveBranch(conversationId, leafId);
+      const summary = mergedConfig.summarize
+        ? this.getUsableSummary(await this.getConversation(conversationId), branch)
+        : undefined;
 
-      // Reverse to get chronological order
-      dbMessages.reverse();
-
-      // Process messages with token limit
-      let estimatedTokens = 0;
+      // Take the newest messages that fit, leaving room for the summary
       const maxTokens = mergedConfig.maxTokens!;
+      estimatedTokens += summary ? this.estimateMessageTokens(summary.content, model) : 0;
+      let start = branch.length;
+      const oldest = Math.max(0, branch.length - mergedConfig.maxMessages!);
 
-      for (const msg of dbMessages) {
-        // Estimate tokens (rough approximation: 1 token ≈ 4 characters)
-        const messageTokens = Math.ceil((msg.content?.length || 0) / 4);
-        
+      while (start > oldest) {
+        const messageTokens = this.estimateMessageTokens(branch[start - 1].content, model);
         if (estimatedTokens + messageTokens > maxTokens) {
-          logger.debug(`Truncating history at ${messages.length} messages due to token limit`);
+          logger.debug(`Truncating history at ${branch.length - start} messages due to token limit`);
           break;
         }
+        estimatedTokens += messageTokens;
+        start--;
+      }
+
+      if (start > 0 && summary) {
+        messages.push({
+          role: 'system',
+          content: `Summary of the earlier conversation:\n${summary.content}`,
+        });
+      }
 
+      for (const msg of branch.slice(start)) {
         messages.push({
           role: msg.role,
           content: msg.content || '',
           ...(msg.images && { images: msg.images }),
         });
+      }
 
-        estimatedTokens += messageTokens;
+      // Fold the messages that just left the window into the summary
+      if (mergedConfig.summarize && mergedConfig.summarizer && start > (summary?.messageCount ?? 0)) {
+        void this.refreshSummary(conversationId, branch.slice(0, start), summary, mergedConfig.summarizer);
       }
 
-      logger.debug(`Retrieved ${messages.length} messages for conversation ${conversationId}`);
+      logger.debug(`Retrieved ${messages.length} messages (~${estimatedTokens}/${maxTokens} tokens) for conversation ${conversationId}`);
       return messages;
     } catch (error) {
       logger.error('Error retrieving conversation history:', error);
@@ -89,6 +143,274 @@ export class ChatMemoryService {
     }
   }
 
+  /**
+   * Estimated tokens of a text for a model
+   */
+  estimateTokens(text: string | undefined, model?: string): number {
+    const charsPerToken = (model && this.charsPerToken.get(model)) || DEFAULT_CHARS_PER_TOKEN;
+    return Math.ceil((text?.length || 0) / charsPerToken);
+  }
+
+  /**
+   * Estimated tokens of a prompt: its messages with their template overhead,
+   * plus the tool schemas offered with it
+   */
+  estimatePromptTokens(messages: PromptMessage[], tools?: unknown[], model?: string): number {
+    const messageTokens = messages.reduce((sum, message) => sum + this.estimateMessageTokens(message.content, model), 0);
+    return messageTokens + (tools?.length ? this.estimateTokens(JSON.stringify(tools), model) : 0);
+  }
+
+  /**
+   * Tokens left for history in a context window once the rest of the prompt
+   * (current message, tool schemas, and the system prompt when it is not part
+   * of the history) and a reserve for the reply are taken out
+   */
+  getHistoryBudget(params: {
+    model: string;
+    contextWindow: number;
+    messages: PromptMessage[];
+    tools?: unknown[];
+    replyReserve?: number;
+  }): number {
+    const replyReserve = params.replyReserve ?? Math.floor(params.contextWindow * REPLY_RESERVE_RATIO);
+    const promptTokens = this.estimatePromptTokens(params.messages, params.tools, params.model);
+    return Math.max(0, params.contextWindow - replyReserve - promptTokens);
+  }
+
+  /**
+   * Calibrate the token estimate of a model with the prompt_eval_count Ollama
+   * reported for a request, and store the request's context usage on its
+   * conversation. Never throws.
+   */
+  recordPromptUsage(params: {
+    model: string;
+    messages: PromptMessage[];
+    tools?: unknown[];
+    promptTokens?: number;
+    completionTokens?: number;
+    contextWindow?: number;
+    conversationId?: string;
+  }): void {
+    const { model, messages, tools, promptTokens } = params;
+    const chars = messages.reduce((sum, message) => sum + (message.content?.length || 0), 0)
+      + (tools?.length ? JSON.stringify(tools).length : 0);
+    const contentTokens = (promptTokens || 0) - messages.length * MESSAGE_OVERHEAD_TOKENS;
+    const sample = contentTokens > 0 ? chars / contentTokens : 0;
+    const current = this.charsPerToken.get(model);
+    const cached = !!current && (promptTokens || 0) < this.estimatePromptTokens(messages, tools, model) * CACHED_PROMPT_RATIO;
+    const measured = !cached && sample >= MIN_CHARS_PER_TOKEN && sample <= MAX_CHARS_PER_TOKEN;
+
+    if (measured) {
+      this.charsPerToken.set(model, current ? current + (sample - current) * CALIBRATION_WEIGHT : sample);
+    }
+
+    const { conversationId, contextWindow } = params;
+    if (!conversationId || !contextWindow || !ObjectId.isValid(conversationId)) {
+      return;
+    }
+
+    const contextUsage: ContextUsage = {
+      model,
+      contextWindow,
+      promptTokens: measured && promptTokens ? promptTokens : this.estimatePromptTokens(messages, tools, model),
+      completionTokens: params.completionTokens,
+      measured,
+      updatedAt: new Date(),
+    };
+    Promise.resolve()
+      .then(() => this.db.conversations.updateOne(this.byId<Conversation>(conversationId), { $set: { contextUsage } }))
+      .catch(error => logger.error(`❌ Failed to record context usage of conversation ${conversationId}:`, error));
+  }
+
+  /**
+   * Messages of a branch, oldest first, ending at `leafId` (the conversation's
+   * active leaf when unset, none when null). Messages with siblings get `branch`.
+   */
+  async getActiveBranch(conversationId: string, leafId?: string | null): Promise<Message[]> {
+    if (leafId === null) {
+      return [];
+    }
+
+    const tree = await this.loadTree(conversationId);
+    const leaf = tree.byId.get(leafId ?? await this.getStoredLeafId(conversationId) ?? '')
+      || tree.messages[tree.messages.length - 1];
+
+    const branch: Message[] = [];
+    let message: Message | undefined = leaf;
+    while (message) {
+      const siblings = tree.children.get(message.parentId ?? null) || [];
+      branch.push(siblings.length > 1
+        ? { ...message, branch: { siblingIds: siblings.map(sibling => sibling._id!), index: siblings.indexOf(message) } }
+        : message);
+      message = message.parentId ? tree.byId.get(message.parentId) : undefined;
+    }
+    return branch.reverse();
+  }
+
+  /**
+   * Id of the last message of the active branch, which a new message follows
+   */
+  async getActiveLeafId(conversationId: string): Promise<string | null> {
+    const branch = await this.getActiveBranch(conversationId);
+    return branch[branch.length - 1]?._id ?? null;
+  }
+
+  /**
+   * Show and continue the branch through `messageId`, down to its newest
+   * descendants. Returns the branch, or null when the message is not found.
+   */
+  async selectBranch(conversationId: string, messageId: string): Promise<Message[] | null> {
+    const tree = await this.loadTree(conversationId);
+    let leaf = tree.byId.get(messageId);
+    if (!leaf) {
+      return null;
+    }
+
+    for (let children = tree.children.get(leaf._id!); children?.length; children = tree.children.get(leaf._id!)) {
+      leaf = children[children.length - 1];
+    }
+
+    await this.db.conversations.updateOne(this.byId<Conversation>(conversationId), {
+      $set: { activeLeafId: leaf._id, updatedAt: new Date() },
+    });
+    return this.getActiveBranch(conversationId, leaf._id);
+  }
+
+  /**
+   * A message with its parent resolved, or undefined when it is not in the conversation
+   */
+  async getMessage(conversationId: string, messageId: string): Promise<Message | undefined> {
+    const tree = await this.loadTree(conversationId);
+    return tree.byId.get(messageId);
+  }
+
+  private async getStoredLeafId(conversationId: string): Promise<string | undefined> {
+    const conversation = await this.getConversation(conversationId);
+    return conversation?.activeLeafId;
+  }
+
+  private async getConversation(conversationId: string): Promise<Conversation | null> {
+    if (!ObjectId.isValid(conversationId)) {
+      return null;
+    }
+    return this.db.conversations.findOne(this.byId<Conversation>(conversationId));
+  }
+
+  // The stored summary, if it covers the start of this branch
+  private getUsableSummary(conversation: Conversation | null, branch: Message[]): ConversationSummary | undefined {
+    const summary = conversation?.summary;
+    if (!summary || branch[summary.messageCount - 1]?._id !== summary.throughMessageId) {
+      return undefined;
+    }
+    return summary;
+  }
+
+  /**
+   * Extend the summary with the messages after the ones it covers, or start a
+   * new one when it belongs to another branch. One refresh per conversation
+   * runs at a time; failures keep the previous summary.
+   */
+  private async refreshSummary(
+    conversationId: string,
+    covered: Message[],
+    previous: ConversationSummary | undefined,
+    summarizer: ConversationSummarizer
+  ): Promise<void> {
+    if (this.summarizing.has(conversationId)) {
+      return;
+    }
+    this.summarizing.add(conversationId);
+
+    try {
+      let content = previous?.content;
+      const pending = covered.slice(previous?.messageCount ?? 0);
+
+      for (let index = 0; index < pending.length;) {
+        const chunk: Message[] = [];
+        let chars = 0;
+        for (; index < pending.length; index++) {
+          const length = Math.min(pending[index].content?.length || 0, SUMMARY_MESSAGE_CHARS);
+          if (chunk.length > 0 && chars + length > SUMMARY_CHUNK_CHARS) break;
+          chars += length;
+          chunk.push(pending[index]);
+        }
+
+        const result = (await summarizer(this.buildSummaryPrompt(content, chunk))).trim();
+        if (!result) {
+          throw new Error('Model returned an empty summary');
+        }
+        content = result;
+      }
+
+      if (!content) {
+        return;
+      }
+
+      const summary: ConversationSummary = {
+        content,
+        throughMessageId: covered[covered.length - 1]._id!,
+        messageCount: covered.length,
+        updatedAt: new Date(),
+      };
+      await this.db.conversations.updateOne(this.byId<Conversation>(conversationId), { $set: { summary } });
+      logger.info(`📝 Summarized ${covered.length} messages of conversation ${conversationId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to summarize conversation ${conversationId}:`, error);
+    } finally {
+      this.summarizing.delete(conversationId);
+    }
+  }
+
+  private buildSummaryPrompt(previous: string | undefined, messages: Message[]): string {
+    const transcript = messages
+      .map(message => {
+        const content = message.content || '';
+        const text = content.length > SUMMARY_MESSAGE_CHARS ? `${content.slice(0, SUMMARY_MESSAGE_CHARS)} [...]` : content;
+        return `${message.role === 'user' ? 'User' : 'Assistant'}: ${text}`;
+      })
+      .join('\n\n');
+
+    return [
+      'You maintain the summary of a conversation for an assistant that will continue it without seeing the original messages.',
+      'Keep names, facts, decisions, user preferences and open questions. Drop small talk. Reply with the updated summary only, in at most 250 words.',
+      previous ? `Current summary:\n${previous}` : 'There is no summary yet.',
+      `New messages:\n${transcript}`,
+    ].join('\n\n');
+  }
+
+  private estimateMessageTokens(text: string | undefined, model?: string): number {
+    return this.estimateTokens(text, model) + MESSAGE_OVERHEAD_TOKENS;
+  }
+
+  private async loadTree(conversationId: string): Promise<MessageTree> {
+    const docs = await this.db.messages
+      .find({ conversationId })
+      .sort({ createdAt: 1 })
+      .toArray();
+
+    // Messages saved before branching follow the one saved before them
+    const messages: Message[] = docs.map((doc, index) => ({
+      ...doc,
+      _id: String(doc._id),
+      parentId: doc.parentId !== undefined ? doc.parentId : index > 0 ? String(docs[index - 1]._id) : null,
+    }));
+
+    const byId = new Map(messages.map(message => [message._id!, message]));
+    const children = new Map<string | null, Message[]>();
+    for (const message of messages) {
+      // Parents removed by clearOldMessages leave their children as first messages
+      const parentId = message.parentId && byId.has(message.parentId) ? message.parentId : null;
+      message.parentId = parentId;
+      children.set(parentId, [...(children.get(parentId) || []), message]);
+    }
+    return { messages, byId, children };
+  }
+
+  // Ids are ObjectIds in MongoDB but strings in the shared types
+  private byId<T>(id: string): Filter<T> {
+    return { _id: new ObjectId(id) } as Filter<T>;
+  }
+
   /**
    * Clear conversation history (useful for memory management)
    */
@@ -119,15 +441,15 @@ export class ChatMemoryService {
   }
 
   /**
-   * Get conversation summary for long conversations
+   * Get conversation summary for long conversations, or the title until
+   * the conversation has outgrown its history window
    */
   async getConversationSummary(conversationId: string): Promise<string | null> {
     try {
-      const conversation = await this.db.conversations.findOne({ _id: conversationId });
+      const conversation = await this.getConversation(conversationId);
       if (!conversation) return null;
 
-      // For now, return the title. In future, this could generate an AI summary
-      return conversation.title || 'Untitled conversation';
+      return conversation.summary?.content || conversation.title || 'Untitled conversation';
     } catch (error) {
       logger.error('Error getting conversation summary:', error);
       return null;
@@ -157,34 +479,41 @@ export class ChatMemoryService {
   }
 
   /**
-   * Get memory statistics for monitoring
+   * Get memory statistics for monitoring, with the context window usage of
+   * the conversation's latest request
    */
-  async getMemoryStats(conversationId: string): Promise<{
-    messageCount: number;
-    estimatedTokens: number;
-    oldestMessage?: Date;
-    newestMessage?: Date;
-  }> {
+  async getMemoryStats(conversationId: string): Promise<ConversationMemoryStats> {
     try {
-      const messages = await this.db.messages
-        .find({ conversationId })
-        .sort({ createdAt: 1 })
-        .toArray();
+      const [conversation, messages] = await Promise.all([
+        this.getConversation(conversationId),
+        this.db.messages
+          .find({ conversationId })
+          .sort({ createdAt: 1 })
+          .toArray(),
+      ]);
 
       if (messages.length === 0) {
         return { messageCount: 0, estimatedTokens: 0 };
       }
 
-      const estimatedTokens = messages.reduce(
-        (sum, msg) => sum + Math.ceil((msg.content?.length || 0) / 4),
-        0
-      );
+      const model = conversation?.model;
+      const branch = await this.getActiveBranch(conversationId);
+      const usage = conversation?.contextUsage;
 
       return {
         messageCount: messages.length,
-        estimatedTokens,
+        estimatedTokens: this.estimatePromptTokens(messages, undefined, model),
         oldestMessage: messages[0].createdAt,
         newestMessage: messages[messages.length - 1].createdAt,
+        activeBranch: {
+          messageCount: branch.length,
+          estimatedTokens: this.estimatePromptTokens(branch, undefined, model),
+        },
+        summarizedMessages: this.getUsableSummary(conversation, branch)?.messageCount ?? 0,
+        context: usage && {
+          ...usage,
+          usedPercent: Math.min(100, Math.round(((usage.promptTokens + (usage.completionTokens || 0)) / usage.contextWindow) * 100)),
+        },
       };
     } catch (error) {
       logger.error('Error getting memory stats:', error);
@@ -1,12 +1,43 @@
-import { ChatRequest, ProcessedRequest, ToolCall, ToolResult } from '@olympian/shared';
+import { ChatRequest, MCPContent, MCPTextContent, ProcessedRequest, ToolCall, ToolResult } from '@olympian/shared';
 import { logger } from '../utils/logger';
 import { MCPManager } from './MCPManager';
 import { ToolNamespaceManager } from './ToolNamespaceManager';
 import { HILManager } from './HILManager';
 import { ToolSelectionService } from './ToolSelectionService';
+import { ToolOverrideService } from './ToolOverrideService';
+import { ToolPreselectionService } from './ToolPreselectionService';
+import { WebSocketService } from './WebSocketService';
+import { ChatMemoryService } from './ChatMemoryService';
+import { modelProgressiveLoader } from './ModelProgressiveLoader';
 import { v4 as uuidv4 } from 'uuid';
 import { getDeploymentConfig } from '../config/deployment';
 
+const DEFAULT_MAX_TOOL_STEPS = 5;
+const DEFAULT_NUM_CTX = 4096;
+
+interface OllamaToolCall {
+  id?: string;
+  function: {
+    name: string;
+    arguments: Record<string, unknown> | string;
+  };
+}
+
+/**
+ * Events yielded by the agent loop
+ */
+export type AgentStreamEvent =
+  | { type: 'token'; content: string; step: number }
+  | { type: 'tool_call'; step: number; toolCall: ToolCall }
+  | { type: 'tool_result'; step: number; toolResult: ToolResult }
+  | {
+      type: 'done';
+      steps: number;
+      toolCalls: ToolCall[];
+      toolResults: ToolResult[];
+      stopReason: 'complete' | 'max_steps' | 'cancelled';
+    };
+
 /**
  * Enhanced Ollama Streamliner following MCP Client for Ollama patterns
  * Focuses on proper streaming and tool handling without capability detection
@@ -16,6 +47,7 @@ export class EnhancedOllamaStreamliner {
   private namespaceManager: ToolNamespaceManager;
   private hilManager: HILManager;
   private toolSelection: ToolSelectionService;
+  private memoryService: ChatMemoryService;
   private deploymentConfig = getDeploymentConfig();
   
   constructor() {
@@ -23,6 +55,7 @@ export class EnhancedOllamaStreamliner {
     this.namespaceManager = ToolNamespaceManager.getInstance();
     this.hilManager = HILManager.getInstance();
     this.toolSelection = ToolSelectionService.getInstance();
+    this.memoryService = ChatMemoryService.getInstance();
   }
   
   /**
@@ -31,7 +64,7 @@ export class EnhancedOllamaStreamliner {
   async processRequest(request: ChatRequest): Promise<ProcessedRequest> {
     const correlationId = uuidv4();
     
-    logger.info(`🎯 Processing request \${correlationId}`, {
+    logger.info(`🎯 Processing request ${correlationId}`, {
       model: request.model,
       hasImages: !!request.images?.length
     });
@@ -39,9 +72,10 @@ export class EnhancedOllamaStreamliner {
     // Build messages array with context
     const messages = await this.buildMessageContext(request);
     
-    // Get only enabled tools in Ollama format
-    const enabledTools = this.toolSelection.getEnabledTools();
-    const tools = enabledTools.map(tool => ({
+    // Get only enabled tools in Ollama format, with user overrides applied
+    const toolOverrides = ToolOverrideService.getInstance();
+    const enabledTools = this.toolSelection.getEnabledTools(request.toolSetId);
+    const allTools = enabledTools.map(tool => toolOverrides.apply({
       type: 'function',
       function: {
         name: tool.name,
@@ -50,100 +84,359 @@ export class EnhancedOllamaStreamliner {
       }
     }));
     
+    // Offer only the tools most relevant to the user's message, ranked on what the model will see
+    const toolSelection = await ToolPreselectionService.getInstance().select({
+      query: this.getSelectionQuery(request, messages),
+      availableTools: allTools.map((tool, index) => ({
+        serverId: enabledTools[index].serverId,
+        name: tool.function.name,
+        description: tool.function.description || '',
+        inputSchema: tool.function.parameters
+      }))
+    });
+    const offered = new Set(toolSelection
+      ? [toolSelection.selectedTool, ...(toolSelection.alternativeTools || [])].map(tool => tool.name)
+      : []);
+    const tools = allTools.filter(tool => offered.has(tool.function.name));
+    const numCtx = this.getContextWindow(request);
+    
+    // History fills what the window leaves after the system prompt, the new
+    // message, the offered tool schemas and a reserve for the reply
+    if (request.conversationId && !request.messages) {
+      const historyBudget = this.memoryService.getHistoryBudget({
+        model: request.model,
+        contextWindow: numCtx,
+        messages,
+        tools
+      });
+      const history = await this.memoryService.getConversationHistory(request.conversationId, {
+        includeSystemPrompt: false,
+        maxTokens: historyBudget,
+        model: request.model,
+        summarizer: prompt => this.summarize(request.model, prompt)
+      }, request.parentMessageId);
+      messages.splice(1, 0, ...history);
+      logger.debug(`📚 Added ${history.length} history messages within ${historyBudget} tokens of ${numCtx}`);
+    }
+    
     const processedRequest: ProcessedRequest = {
       model: request.model,
       messages,
       stream: true,
       tools: tools.length > 0 ? tools : undefined,
+      toolSelection: toolSelection || undefined,
       options: {
-        temperature: request.temperature || 0.7,
-        top_p: request.top_p || 0.9,
+        temperature: request.temperature ?? 0.7,
+        top_p: request.top_p ?? 0.9,
         seed: request.seed,
-        num_ctx: request.num_ctx || 4096
+        num_ctx: numCtx
       }
     };
     
-    // Store correlation ID for tracking
+    // Store correlation ID, step budget and tool set for tracking
     (processedRequest as any)._correlationId = correlationId;
+    processedRequest.maxToolSteps = request.maxToolSteps;
+    processedRequest.toolSetId = request.toolSetId;
+    processedRequest.conversationId = request.conversationId;
+    processedRequest.clientId = request.clientId;
     
-    logger.debug(`📋 Request prepared with \${tools.length} tools`);
+    logger.debug(`📋 Request prepared with ${tools.length}/${allTools.length} tools`);
     
     return processedRequest;
   }
   
   /**
-   * Enhanced streaming with proper tool handling
+   * Text the tools are ranked against: the new message, or the last user turn
+   */
+  private getSelectionQuery(request: ChatRequest, messages: ProcessedRequest['messages']): string {
+    if (request.content || request.prompt) {
+      return request.content || request.prompt || '';
+    }
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+    return lastUserMessage?.content || '';
+  }
+  
+  /**
+   * Agent loop: stream a model turn, execute any requested tools, feed the
+   * results back as 'tool' messages and call the model again until it answers
+   * without tool calls. After maxToolSteps tool rounds the model is asked for a
+   * final answer with tools withheld. Aborting `signal` stops the model call
+   * and any running tool, and ends the loop with stopReason 'cancelled'.
    */
   async *stream(
-    request: ProcessedRequest
-  ): AsyncGenerator<any, void, unknown> {
+    request: ProcessedRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<AgentStreamEvent, void, unknown> {
     const correlationId = (request as any)._correlationId || uuidv4();
-    const host = this.getOllamaHost();
+    const maxSteps = this.getMaxToolSteps(request.maxToolSteps);
+    const { toolSetId, conversationId, clientId } = request;
+    const messages = [...request.messages];
+    const toolCalls: ToolCall[] = [];
+    const toolResults: ToolResult[] = [];
     
-    logger.info(`🌊 Starting stream \${correlationId} to \${host}`);
+    logger.info(`🌊 Starting agent loop ${correlationId} (max ${maxSteps} tool steps)`);
     
+    let step = 1;
     try {
-      // Make Ollama API call
-      const response = await fetch(`\${host}/api/chat`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(request)
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Ollama error: \${response.statusText}`);
-      }
-      
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
-      
-      const decoder = new TextDecoder();
-      let buffer = '';
-      
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+      for (; step <= maxSteps + 1; step++) {
+        const allowTools = step <= maxSteps;
+        const pendingCalls: OllamaToolCall[] = [];
+        let content = '';
+        
+        for await (const chunk of this.chatRequest({
+          ...request,
+          messages,
+          tools: allowTools ? request.tools : undefined
+        }, signal)) {
+          if (chunk.message?.content) {
+            content += chunk.message.content;
+            yield { type: 'token', content: chunk.message.content, step };
+          }
+          if (chunk.message?.tool_calls) {
+            pendingCalls.push(...chunk.message.tool_calls);
+          }
+          if (chunk.done) {
+            this.memoryService.recordPromptUsage({
+              model: request.model,
+              messages,
+              tools: allowTools ? request.tools : undefined,
+              promptTokens: chunk.prompt_eval_count,
+              completionTokens: chunk.eval_count,
+              contextWindow: request.options?.num_ctx as number | undefined,
+              conversationId
+            });
+          }
+        }
         
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
+        if (pendingCalls.length === 0 || !allowTools) {
+          logger.info(`✅ Agent loop ${correlationId} finished after ${step} step(s)`);
+          yield {
+            type: 'done',
+            steps: step,
+            toolCalls,
+            toolResults,
+            stopReason: allowTools ? 'complete' : 'max_steps'
+          };
+          return;
+        }
         
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              const chunk = JSON.parse(line);
-              
-              // Handle tool calls
-              if (chunk.message?.tool_calls) {
-                for (const toolCall of chunk.message.tool_calls) {
-                  const toolResponse = await this.handleToolCall(
-                    toolCall,
-                    correlationId
-                  );
-                  
-                  // Inject tool response into stream
-                  yield {
-                    ...chunk,
-                    tool_response: toolResponse
-                  };
-                }
-              } else {
-                // Regular content chunk
-                yield chunk;
-              }
-              
-            } catch (e) {
-              logger.error(`Error parsing chunk: \${e}`);
-            }
+        const stepCalls = pendingCalls.map(call => this.toToolCall(call, step));
+        messages.push({
+          role: 'assistant',
+          content,
+          tool_calls: stepCalls.map(({ id, type, function: fn }) => ({ id, type, function: fn }))
+        });
+        
+        for (const toolCall of stepCalls) {
+          toolCalls.push(toolCall);
+          yield { type: 'tool_call', step, toolCall };
+          
+          const toolResult = await this.handleToolCall(toolCall, correlationId, { toolSetId, conversationId, clientId, signal });
+          toolCall.status = toolResult.success ? 'completed' : 'failed';
+          toolCall.endTime = new Date();
+          toolResults.push(toolResult);
+          yield { type: 'tool_result', step, toolResult };
+          
+          // Feed the result back so the model can use it on the next step
+          messages.push({
+            role: 'tool',
+            content: this.formatToolResult(toolResult),
+            tool_name: toolCall.function.name
+          });
+          
+          if (signal?.aborted) {
+            break;
           }
         }
+        
+        if (signal?.aborted) {
+          break;
+        }
       }
-      
     } catch (error) {
-      logger.error(`Stream error \${correlationId}:`, error);
-      throw error;
+      if (!signal?.aborted) {
+        logger.error(`Stream error ${correlationId}:`, error);
+        throw error;
+      }
+    }
+    
+    logger.info(`🛑 Agent loop ${correlationId} cancelled at step ${step}`);
+    yield {
+      type: 'done',
+      steps: step,
+      toolCalls,
+      toolResults,
+      stopReason: 'cancelled'
+    };
+  }
+  
+  /**
+   * Run a conversation summarization prompt to completion
+   */
+  private async summarize(model: string, prompt: string): Promise<string> {
+    let content = '';
+    for await (const chunk of this.chatRequest({
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      stream: false,
+      options: { temperature: 0.2 }
+    })) {
+      content += chunk.message?.content || '';
+    }
+    // Reasoning models may think out loud before answering
+    return content.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+  }
+  
+  /**
+   * Call Ollama /api/chat and yield the parsed NDJSON chunks
+   */
+  private async *chatRequest(
+    request: ProcessedRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<any, void, unknown> {
+    const host = this.getOllamaHost();
+    
+    const response = await fetch(`${host}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        stream: request.stream ?? true,
+        tools: request.tools,
+        options: request.options
+      }),
+      signal
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Ollama error: ${response.statusText}`);
+    }
+    
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+    
+    const decoder = new TextDecoder();
+    let buffer = '';
+    
+    const parse = (line: string): any => {
+      try {
+        return JSON.parse(line);
+      } catch (e) {
+        logger.error(`Error parsing chunk: ${e}`);
+        return null;
+      }
+    };
+    
+    let read = await reader.read();
+    while (!read.done) {
+      buffer += decoder.decode(read.value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      
+      for (const line of lines) {
+        const chunk = line.trim() ? parse(line) : null;
+        if (!chunk) continue;
+        if (chunk.error) {
+          throw new Error(`Ollama error: ${chunk.error}`);
+        }
+        yield chunk;
+      }
+      read = await reader.read();
+    }
+    
+    const last = buffer.trim() ? parse(buffer) : null;
+    if (last) {
+      yield last;
+    }
+  }
+  
+  /**
+   * Normalize an Ollama tool call into the shared ToolCall shape
+   */
+  private toToolCall(call: OllamaToolCall, step: number): ToolCall {
+    let args = call.function.arguments;
+    if (typeof args === 'string') {
+      try {
+        args = JSON.parse(args);
+      } catch (e) {
+        logger.warn(`Failed to parse arguments for ${call.function.name} as JSON`);
+        args = {};
+      }
+    }
+    
+    return {
+      id: call.id || uuidv4(),
+      type: 'function',
+      function: {
+        name: call.function.name,
+        arguments: (args as Record<string, unknown>) || {}
+      },
+      serverId: this.namespaceManager.parseToolName(call.function.name)?.serverId,
+      status: 'pending',
+      step
+    };
+  }
+  
+  /**
+   * Render a tool result as the content of a 'tool' message
+   */
+  private formatToolResult(result: ToolResult): string {
+    if (!result.success) {
+      const message = `Error: ${result.error || 'Tool call failed'}`;
+      // Give the model a chance to fix its own arguments on the next step
+      if (result.errorType === 'VALIDATION_ERROR') {
+        return `${message}\nCorrect the arguments to match the tool's input schema and call the tool again.`;
+      }
+      if (result.errorType === 'CANCELLED') {
+        return `${message}\nThe user stopped this tool call. Do not call it again; answer with the information you have.`;
+      }
+      return message;
+    }
+    
+    // MCP results are content arrays; hand text parts to the model verbatim
+    if (Array.isArray(result.result)) {
+      const text = result.result
+        .filter((item: MCPContent) => item?.type === 'text')
+        .map((item: MCPTextContent) => item.text)
+        .join('\n');
+      if (text) {
+        return text;
+      }
+    }
+    
+    return typeof result.result === 'string' ? result.result : JSON.stringify(result.result ?? null);
+  }
+  
+  /**
+   * The window the request runs with: its num_ctx, then the model's context window, then the default
+   */
+  private getContextWindow(request: ChatRequest): number {
+    const capability = modelProgressiveLoader.getCapabilities().find(cap => cap.name === request.model);
+    return request.num_ctx || capability?.contextWindow || DEFAULT_NUM_CTX;
+  }
+  
+  /**
+   * Resolve the tool step budget from the request or MCP_MAX_TOOL_STEPS
+   */
+  private getMaxToolSteps(requested?: number): number {
+    const configured = parseInt(process.env.MCP_MAX_TOOL_STEPS || '', 10);
+    const steps = requested || configured || DEFAULT_MAX_TOOL_STEPS;
+    return Math.max(1, steps);
+  }
+  
+  /**
+   * Send tool progress to the tab that made the request, or to sockets showing
+   * its conversation. Tool arguments and results never go to other clients.
+   */
+  private emitToolEvent(context: { conversationId?: string; clientId?: string }, event: string, data: unknown): void {
+    const ws = WebSocketService.getInstance();
+    if (context.clientId) {
+      ws.emitToRoom(`client:${context.clientId}`, event, data);
+    } else if (context.conversationId) {
+      ws.emitToRoom(`conversation:${context.conversationId}`, event, data);
     }
   }
   
@@ -151,20 +444,25 @@ export class EnhancedOllamaStreamliner {
    * Handle tool call with HIL support
    */
   private async handleToolCall(
-    toolCall: any,
-    correlationId: string
+    toolCall: ToolCall,
+    correlationId: string,
+    context: { toolSetId?: string; conversationId?: string; clientId?: string; signal?: AbortSignal } = {}
   ): Promise<ToolResult> {
     const startTime = Date.now();
-    const toolCallId = toolCall.id || uuidv4();
+    const toolCallId = toolCall.id;
     
-    logger.info(`🔧 Tool call \${toolCallId}`, {
+    toolCall.status = 'executing';
+    toolCall.startTime = new Date(startTime);
+    
+    logger.info(`🔧 Tool call ${toolCallId}`, {
       name: toolCall.function.name,
+      step: toolCall.step,
       correlationId
     });
     
     try {
       // Check if tool is enabled
-      if (!this.toolSelection.isToolEnabled(toolCall.function.name)) {
+      if (!this.toolSelection.isToolEnabled(toolCall.function.name, context.toolSetId)) {
         return {
           id: toolCallId,
           success: false,
@@ -176,18 +474,21 @@ export class EnhancedOllamaStreamliner {
       // Parse namespace
       const parsed = this.namespaceManager.parseToolName(toolCall.function.name);
       if (!parsed) {
-        throw new Error(`Invalid tool name: \${toolCall.function.name}`);
+        throw new Error(`Invalid tool name: ${toolCall.function.name}`);
       }
       
       // Request HIL confirmation if enabled
       if (this.hilManager.isEnabled()) {
-        const approved = await this.hilManager.requestConfirmation({
+        const approval = await this.hilManager.requestApproval({
           toolName: toolCall.function.name,
           arguments: toolCall.function.arguments,
-          serverId: parsed.serverId
+          serverId: parsed.serverId,
+          conversationId: context.conversationId,
+          clientId: context.clientId,
+          signal: context.signal
         });
         
-        if (!approved) {
+        if (!approval.approved) {
           return {
             id: toolCallId,
             success: false,
@@ -195,38 +496,57 @@ export class EnhancedOllamaStreamliner {
             duration: Date.now() - startTime
           };
         }
-      }
-      
-      // Parse arguments if they're a string
-      let args = toolCall.function.arguments;
-      if (typeof args === 'string') {
-        try {
-          args = JSON.parse(args);
-        } catch (e) {
-          logger.warn('Failed to parse tool arguments as JSON');
+        
+        // Run what the user approved. The function object is shared with the
+        // assistant message, so the model also sees the edited call.
+        if (approval.arguments) {
+          toolCall.originalArguments = toolCall.function.arguments;
+          toolCall.function.arguments = approval.arguments;
         }
       }
       
-      // Execute tool with original name
+      // Execute tool with original name; the call id lets the user cancel it
       const originalName = this.namespaceManager.getOriginalToolName(toolCall.function.name);
+      this.emitToolEvent(context, 'tool:executing', {
+        id: toolCallId,
+        toolName: parsed.toolName,
+        namespace: parsed.serverId
+      });
+      
+      const cancelTool = () => this.mcpManager.cancelToolCall(toolCallId);
+      context.signal?.addEventListener('abort', cancelTool, { once: true });
       const response = await this.mcpManager.invokeTool({
         serverId: parsed.serverId,
         toolName: originalName || parsed.toolName,
-        arguments: args
-      });
+        arguments: toolCall.function.arguments,
+        callId: toolCallId,
+        owner: { clientId: context.clientId, conversationId: context.conversationId }
+      }).finally(() => context.signal?.removeEventListener('abort', cancelTool));
+      
+      if (response.success) {
+        this.emitToolEvent(context, 'tool:result', { id: toolCallId, result: response.result });
+      } else {
+        this.emitToolEvent(context, 'tool:error', {
+          id: toolCallId,
+          error: response.error || 'Tool call failed',
+          errorType: response.errorType
+        });
+      }
       
       return {
         id: toolCallId,
         success: response.success,
         result: response.result,
         error: response.error,
+        errorType: response.errorType,
         duration: Date.now() - startTime,
-        serverId: parsed.serverId,
-        toolName: parsed.toolName
+        serverId: response.serverId || parsed.serverId,
+        toolName: parsed.toolName,
+        cachedResult: response.cachedResult
       };
       
     } catch (error: any) {
-      logger.error(`Tool call failed \${toolCallId}:`, error);
+      logger.error(`Tool call failed ${toolCallId}:`, error);
       
       return {
         id: toolCallId,
@@ -251,7 +571,7 @@ export class EnhancedOllamaStreamliner {
     const messages = [];
     
     // Add system message if configured
-    const systemPrompt = this.deploymentConfig.systemPrompt || 
+    const systemPrompt = request.systemPrompt || this.deploymentConfig.systemPrompt || 
       'You are a helpful AI assistant with access to various tools.';
     
     messages.push({
@@ -311,50 +631,9 @@ export class EnhancedOllamaStreamliner {
   async *directStream(
     request: ProcessedRequest
   ): AsyncGenerator<any, void, unknown> {
-    const host = this.getOllamaHost();
-    
-    // Remove tools from request for direct streaming
-    const cleanRequest = { ...request };
-    delete cleanRequest.tools;
-    
     try {
-      const response = await fetch(`\${host}/api/chat`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(cleanRequest)
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Ollama error: \${response.statusText}`);
-      }
-      
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
-      
-      const decoder = new TextDecoder();
-      let buffer = '';
-      
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-        
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              const chunk = JSON.parse(line);
-              yield chunk;
-            } catch (e) {
-              logger.error(`Error parsing chunk: \${e}`);
-            }
-          }
-        }
-      }
+      // Remove tools from request for direct streaming
+      yield* this.chatRequest({ ...request, tools: undefined });
     } catch (error) {
       logger.error('Direct stream error:', error);
       throw error;
@@ -374,19 +653,22 @@ export class EnhancedOllamaStreamliner {
     processedRequest: ProcessedRequest,
     onToken: (token: string) => void,
     onComplete?: (result: any) => void,
-    clientIp?: string
+    clientIp?: string,
+    signal?: AbortSignal
   ): Promise<void> {
     try {
-      const generator = this.stream(processedRequest);
+      const generator = this.stream(processedRequest, signal);
       let fullResponse = '';
+      let summary: Extract<AgentStreamEvent, { type: 'done' }> | undefined;
       
-      for await (const chunk of generator) {
-        if (chunk.type === 'token') {
-          onToken(chunk.content);
-          fullResponse += chunk.content;
-        } else if (chunk.type === 'tool_call') {
-          // Handle tool calls if needed
-          logger.debug('Tool call in streamChat:', chunk);
+      for await (const event of generator) {
+        if (event.type === 'token') {
+          onToken(event.content);
+          fullResponse += event.content;
+        } else if (event.type === 'tool_call') {
+          logger.debug(`Step ${event.step} calling ${event.toolCall.function.name}`);
+        } else if (event.type === 'done') {
+          summary = event;
         }
       }
       
@@ -394,7 +676,11 @@ export class EnhancedOllamaStreamliner {
         onComplete({
           response: fullResponse,
           model: processedRequest.model,
-          done: true
+          done: true,
+          toolCalls: summary?.toolCalls || [],
+          toolResults: summary?.toolResults || [],
+          agentSteps: summary?.steps,
+          cancelled: summary?.stopReason === 'cancelled'
         });
       }
     } catch (error) {
@@ -0,0 +1,116 @@
+import { Collection, Filter, ObjectId } from 'mongodb';
+import { HILAuditEntry } from '@olympian/shared';
+import { DatabaseService } from './DatabaseService';
+import { logger } from '../utils/logger';
+
+type HILAuditDocument = Omit<HILAuditEntry, '_id'> & { _id?: ObjectId };
+
+export interface HILAuditQuery {
+  toolName?: string;
+  serverId?: string;
+  conversationId?: string;
+  decision?: HILAuditEntry['decision'];
+  source?: HILAuditEntry['source'];
+  from?: Date;
+  to?: Date;
+}
+
+export const HIL_AUDIT_CSV_COLUMNS: Array<keyof HILAuditEntry> = [
+  'requestedAt', 'decidedAt', 'latencyMs', 'decision', 'source', 'scope', 'policyId',
+  'serverId', 'toolName', 'arguments', 'editedArguments', 'conversationId', 'socketId', 'clientAddress', 'requestId'
+];
+
+/**
+ * Persistent record of every HIL decision: user approvals and rejections,
+ * timeouts, and calls settled by policies or conversation approvals.
+ */
+export class HILAuditService {
+  private static instance: HILAuditService;
+
+  private constructor() {}
+
+  static getInstance(): HILAuditService {
+    if (!HILAuditService.instance) {
+      HILAuditService.instance = new HILAuditService();
+    }
+    return HILAuditService.instance;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      const collection = this.getCollection();
+      await collection.createIndex({ decidedAt: -1 });
+      await collection.createIndex({ toolName: 1, decidedAt: -1 });
+      await collection.createIndex({ conversationId: 1, decidedAt: -1 });
+      logger.info('📜 HIL audit trail ready');
+    } catch (error) {
+      logger.error('❌ Failed to initialize HIL audit trail:', error);
+    }
+  }
+
+  /**
+   * Store a decision. Failures are logged rather than blocking the tool call.
+   */
+  record(entry: Omit<HILAuditEntry, '_id'>): void {
+    Promise.resolve()
+      .then(() => this.getCollection().insertOne({ ...entry }))
+      .catch(error => logger.error(`❌ Failed to record HIL decision ${entry.requestId}:`, error));
+  }
+
+  async query(filters: HILAuditQuery, page: number, limit: number): Promise<{ entries: HILAuditEntry[]; total: number }> {
+    const filter = this.buildFilter(filters);
+    const [documents, total] = await Promise.all([
+      this.getCollection()
+        .find(filter)
+        .sort({ decidedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray(),
+      this.getCollection().countDocuments(filter)
+    ]);
+    return { entries: documents.map(doc => this.formatEntry(doc)), total };
+  }
+
+  /**
+   * Iterate matching entries, newest first, for exports
+   */
+  async *stream(filters: HILAuditQuery, limit: number): AsyncGenerator<HILAuditEntry> {
+    const cursor = this.getCollection().find(this.buildFilter(filters)).sort({ decidedAt: -1 }).limit(limit);
+    for await (const doc of cursor) {
+      yield this.formatEntry(doc);
+    }
+  }
+
+  toCsvRow(entry: HILAuditEntry): string {
+    return HIL_AUDIT_CSV_COLUMNS.map(column => {
+      const value = entry[column];
+      if (value === undefined || value === null) return '';
+      const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(',');
+  }
+
+  private buildFilter(filters: HILAuditQuery): Filter<HILAuditDocument> {
+    const filter: Filter<HILAuditDocument> = {};
+    if (filters.toolName) filter.toolName = filters.toolName;
+    if (filters.serverId) filter.serverId = filters.serverId;
+    if (filters.conversationId) filter.conversationId = filters.conversationId;
+    if (filters.decision) filter.decision = filters.decision;
+    if (filters.source) filter.source = filters.source;
+    if (filters.from || filters.to) {
+      filter.decidedAt = {
+        ...(filters.from ? { $gte: filters.from } : {}),
+        ...(filters.to ? { $lte: filters.to } : {})
+      };
+    }
+    return filter;
+  }
+
+  private formatEntry(doc: HILAuditDocument): HILAuditEntry {
+    return { ...doc, _id: doc._id?.toString() };
+  }
+
+  private getCollection(): Collection<HILAuditDocument> {
+    return DatabaseService.getInstance().getDatabase().collection<HILAuditDocument>('hil_audit');
+  }
+}
@@ -1,5 +1,11 @@
 import { EventEmitter } from 'events';
+import { Socket } from 'socket.io';
+import { HILApprovalScope, HILAuditEntry } from '@olympian/shared';
 import { logger } from '../utils/logger';
+import { validateToolArguments } from '../utils/toolArguments';
+import { HILAuditService } from './HILAuditService';
+import { HILPolicyService } from './HILPolicyService';
+import { ToolNamespaceManager } from './ToolNamespaceManager';
 import { WebSocketService } from './WebSocketService';
 
 interface HILRequest {
@@ -7,20 +13,47 @@ interface HILRequest {
   toolName: string;
   arguments: any;
   serverId: string;
+  conversationId?: string;
+  clientId?: string;
+  alwaysAsk?: boolean;
+  timeoutMs: number;
+  editedArguments?: Record<string, unknown>;
+  scope?: HILApprovalScope;
+  respondent?: HILRespondent;
   timestamp: Date;
-  status: 'pending' | 'approved' | 'rejected' | 'timeout';
+  status: 'pending' | 'approved' | 'rejected' | 'timeout' | 'cancelled';
+}
+
+// Identifies who answered a prompt, for routing checks and the audit trail
+export interface HILRespondent {
+  socketId?: string;
+  clientAddress?: string;
+  clientId?: string;
+  conversationIds?: string[]; // conversations the socket has joined
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface HILApproval {
+  approved: boolean;
+  arguments?: Record<string, unknown>; // set when the user edited the arguments before approving
 }
 
 /**
  * Human-in-the-Loop Manager for tool execution approval
  * Based on MCP Client for Ollama's HIL implementation
+ *
+ * Requests are bound to the client tab that sent the message, or failing
+ * that to its conversation; only sockets of that client or conversation see
+ * and answer them. Requests with neither go to everyone.
  */
 export class HILManager extends EventEmitter {
   private static instance: HILManager;
   private enabled: boolean = true; // HIL enabled by default for safety
   private pendingRequests = new Map<string, HILRequest>();
+  private conversationApprovals = new Map<string, Set<string>>(); // conversationId -> tool names
   private ws: WebSocketService | null = null;
-  private readonly TIMEOUT_MS = 30000; // 30 second timeout
+  private readonly defaultTimeoutMs = parseInt(process.env.HIL_TIMEOUT_MS || '', 10) || DEFAULT_TIMEOUT_MS;
   
   private constructor() {
     super();
@@ -49,9 +82,29 @@ export class HILManager extends EventEmitter {
     toolName: string;
     arguments: any;
     serverId: string;
+    conversationId?: string;
+    clientId?: string;
   }): Promise<boolean> {
+    return (await this.requestApproval(params)).approved;
+  }
+  
+  /**
+   * Request approval, including any arguments the user edited. Policies and
+   * earlier "allow for this conversation" answers can decide without asking,
+   * unless alwaysAsk is set: then the user must answer this request as shown,
+   * and the approval is not remembered.
+   */
+  async requestApproval(params: {
+    toolName: string;
+    arguments: Record<string, unknown>;
+    serverId: string;
+    conversationId?: string;
+    clientId?: string;
+    alwaysAsk?: boolean;
+    signal?: AbortSignal; // aborted when the generation that made the call is stopped
+  }): Promise<HILApproval> {
     if (!this.enabled) {
-      return true; // Auto-approve if HIL is disabled
+      return { approved: true }; // Auto-approve if HIL is disabled
     }
     
     const requestId = `hil_${Date.now()}_${Math.random()}`;
@@ -60,69 +113,281 @@ export class HILManager extends EventEmitter {
       toolName: params.toolName,
       arguments: params.arguments,
       serverId: params.serverId,
+      conversationId: params.conversationId,
+      clientId: params.clientId,
+      alwaysAsk: params.alwaysAsk,
+      timeoutMs: this.defaultTimeoutMs,
       timestamp: new Date(),
       status: 'pending'
     };
     
-    this.pendingRequests.set(requestId, request);
+    // Policies come first, so an allow for this conversation never overrides a deny rule
+    const policyService = HILPolicyService.getInstance();
+    const decision = params.alwaysAsk ? undefined : policyService.evaluate(params);
+    if (decision?.policy && decision.action !== 'ask') {
+      const approved = decision.action === 'allow';
+      logger.info(`🛡️ HIL policy ${policyService.describe(decision.policy)} ${approved ? 'approved' : 'rejected'} ${params.toolName}`);
+      this.audit(request, approved ? 'approved' : 'rejected', 'policy', { policyId: decision.policy._id });
+      return { approved };
+    }
     
-    // Send to WebSocket clients if available
-    if (this.ws) {
-      this.ws.broadcast('hil:request', {
-        id: requestId,
-        toolName: params.toolName,
-        arguments: params.arguments,
-        serverId: params.serverId
-      });
+    if (!params.alwaysAsk && params.conversationId && this.conversationApprovals.get(params.conversationId)?.has(params.toolName)) {
+      logger.info(`✅ HIL auto-approved ${params.toolName} for conversation ${params.conversationId}`);
+      this.audit(request, 'approved', 'conversation');
+      return { approved: true };
     }
     
-    logger.info(`🛡️ HIL request ${requestId} for ${params.toolName}`);
+    // An "ask" policy may set how long to wait for this tool
+    request.timeoutMs = decision?.policy?.timeoutMs || this.defaultTimeoutMs;
+    this.pendingRequests.set(requestId, request);
+    
+    if (!this.deliver(request, 'hil:request', this.toPayload(request))) {
+      logger.info(`🛡️ HIL request ${requestId} for ${params.toolName} waiting for its client to reconnect`);
+    } else {
+      logger.info(`🛡️ HIL request ${requestId} for ${params.toolName}`);
+    }
     
-    // Wait for response with timeout
+    // Settled by processUserResponse, clearPendingRequests, the timeout or the signal
     return new Promise((resolve) => {
       const timeout = setTimeout(() => {
         request.status = 'timeout';
-        this.pendingRequests.delete(requestId);
-        logger.warn(`⏱️ HIL request ${requestId} timed out`);
-        resolve(false); // Reject on timeout for safety
-      }, this.TIMEOUT_MS);
+        this.emit(`settled:${requestId}`);
+      }, request.timeoutMs);
       
-      const checkResponse = setInterval(() => {
-        const req = this.pendingRequests.get(requestId);
-        if (!req || req.status === 'pending') return;
-        
-        clearInterval(checkResponse);
+      this.once(`settled:${requestId}`, () => {
         clearTimeout(timeout);
-        
-        const approved = req.status === 'approved';
+        params.signal?.removeEventListener('abort', onAbort);
         this.pendingRequests.delete(requestId);
         
-        logger.info(`✅ HIL request ${requestId} ${approved ? 'approved' : 'rejected'}`);
-        resolve(approved);
-      }, 100);
+        if (request.status === 'timeout') {
+          logger.warn(`⏱️ HIL request ${requestId} timed out`);
+          this.audit(request, 'timeout', 'timeout');
+          this.deliver(request, 'hil:response', { id: requestId, requestId, approved: false, toolName: request.toolName });
+          resolve({ approved: false }); // Reject on timeout for safety
+          return;
+        }
+        
+        if (request.status === 'cancelled') {
+          logger.info(`🛑 HIL request ${requestId} withdrawn, its generation was stopped`);
+          this.audit(request, 'rejected', 'cancelled');
+          this.deliver(request, 'hil:response', { id: requestId, requestId, approved: false, toolName: request.toolName });
+          resolve({ approved: false });
+          return;
+        }
+        
+        const approved = request.status === 'approved';
+        logger.info(`✅ HIL request ${requestId} ${approved ? 'approved' : 'rejected'}${request.editedArguments ? ' with edited arguments' : ''}`);
+        this.audit(request, approved ? 'approved' : 'rejected', 'user', {
+          scope: request.scope,
+          socketId: request.respondent?.socketId,
+          clientAddress: request.respondent?.clientAddress
+        });
+        resolve({ approved, arguments: approved ? request.editedArguments : undefined });
+      });
+      
+      const onAbort = () => {
+        if (request.status === 'pending') {
+          request.status = 'cancelled';
+          this.emit(`settled:${requestId}`);
+        }
+      };
+      params.signal?.addEventListener('abort', onAbort, { once: true });
+      if (params.signal?.aborted) {
+        onAbort();
+      }
     });
   }
   
   /**
-   * Process user response to HIL request
+   * Send pending requests to a socket that (re)connected or joined a conversation
+   */
+  redeliver(socket: Socket): void {
+    const respondent = this.getRespondent(socket);
+    for (const request of this.getPendingRequests()) {
+      if (this.canRespond(request, respondent)) {
+        socket.emit('hil:request', this.toPayload(request));
+      }
+    }
+  }
+  
+  /**
+   * Whether a socket may see and answer a request
    */
-  processUserResponse(requestId: string, approved: boolean): void {
+  canRespond(request: HILRequest, respondent: HILRespondent): boolean {
+    if (request.clientId) {
+      return respondent.clientId === request.clientId;
+    }
+    if (request.conversationId) {
+      return !!respondent.conversationIds?.includes(request.conversationId);
+    }
+    return true;
+  }
+  
+  getRespondent(socket: Socket): HILRespondent {
+    const clientId = socket.handshake.auth?.clientId;
+    return {
+      socketId: socket.id,
+      clientAddress: socket.handshake.address,
+      clientId: typeof clientId === 'string' ? clientId : undefined,
+      conversationIds: Array.from(socket.rooms)
+        .filter(room => room.startsWith('conversation:'))
+        .map(room => room.slice('conversation:'.length))
+    };
+  }
+  
+  // Emit to the request's client or conversation. Returns false if nobody received it.
+  private deliver(request: HILRequest, event: string, data: unknown): boolean {
+    if (!this.ws) {
+      return false;
+    }
+    if (request.clientId) {
+      return this.ws.emitToRoom(`client:${request.clientId}`, event, data);
+    }
+    if (request.conversationId) {
+      return this.ws.emitToRoom(`conversation:${request.conversationId}`, event, data);
+    }
+    this.ws.broadcast(event, data);
+    return true;
+  }
+  
+  private toPayload(request: HILRequest) {
+    return {
+      id: request.id,
+      requestId: request.id,
+      tool: {
+        serverId: request.serverId,
+        name: request.toolName,
+        description: '',
+        arguments: request.arguments
+      },
+      conversationId: request.conversationId,
+      alwaysAsk: request.alwaysAsk,
+      timeout: request.timeoutMs,
+      timestamp: request.timestamp.getTime()
+    };
+  }
+  
+  /**
+   * Process user response to HIL request. An approval can also cover later
+   * calls of the same tool in the conversation, or always, and can carry
+   * edited arguments. Invalid arguments leave the request pending.
+   */
+  processUserResponse(
+    requestId: string,
+    approved: boolean,
+    options: { scope?: HILApprovalScope; arguments?: Record<string, unknown>; respondent?: HILRespondent } = {}
+  ): { success: boolean; error?: string } {
     const request = this.pendingRequests.get(requestId);
-    if (!request) {
+    if (!request || request.status !== 'pending') {
       logger.warn(`HIL request ${requestId} not found`);
-      return;
+      return { success: false, error: 'Request not found or already answered' };
     }
     
+    if (options.respondent && !this.canRespond(request, options.respondent)) {
+      logger.warn(`HIL request ${requestId}: response from ${options.respondent.socketId} ignored, it belongs to another client`);
+      return { success: false, error: 'This request belongs to another client' };
+    }
+    
+    if (approved && request.alwaysAsk && (options.arguments !== undefined || (options.scope && options.scope !== 'once'))) {
+      logger.warn(`HIL request ${requestId}: ${request.toolName} can only be approved once, as shown`);
+      return { success: false, error: `${request.toolName} can only be approved once, as shown` };
+    }
+    
+    if (approved && options.arguments !== undefined) {
+      const error = this.applyEditedArguments(request, options.arguments);
+      if (error) {
+        logger.warn(`HIL request ${requestId}: ${error}`);
+        return { success: false, error };
+      }
+    }
+    
+    const scope = options.scope || 'once';
     request.status = approved ? 'approved' : 'rejected';
+    request.respondent = options.respondent;
+    if (approved) {
+      request.scope = scope;
+      this.rememberApproval(request, scope);
+    }
     
-    // Notify clients
-    if (this.ws) {
-      this.ws.broadcast('hil:response', {
-        id: requestId,
-        approved,
-        toolName: request.toolName
-      });
+    // Close the prompt on the client's other sockets
+    this.deliver(request, 'hil:response', {
+      id: requestId,
+      requestId,
+      approved,
+      toolName: request.toolName
+    });
+    this.emit(`settled:${requestId}`);
+    return { success: true };
+  }
+  
+  /**
+   * Validate edited arguments against the tool's input schema. Returns an
+   * error message, or undefined once the arguments are stored on the request.
+   */
+  private applyEditedArguments(request: HILRequest, args: Record<string, unknown>): string | undefined {
+    const tool = ToolNamespaceManager.getInstance().getTool(request.toolName);
+    if (!tool) {
+      return `Arguments of ${request.toolName} cannot be edited`;
+    }
+    
+    const validation = validateToolArguments(tool.inputSchema, args);
+    if (!validation.isValid) {
+      return `Invalid arguments: ${validation.errors?.join('; ')}`;
+    }
+    
+    const edited = validation.sanitizedArguments || args;
+    if (JSON.stringify(edited) !== JSON.stringify(request.arguments)) {
+      request.editedArguments = edited;
     }
+    return undefined;
+  }
+  
+  private audit(
+    request: HILRequest,
+    decision: HILAuditEntry['decision'],
+    source: HILAuditEntry['source'],
+    details: Pick<HILAuditEntry, 'scope' | 'policyId' | 'socketId' | 'clientAddress'> = {}
+  ): void {
+    const decidedAt = new Date();
+    HILAuditService.getInstance().record({
+      requestId: request.id,
+      toolName: request.toolName,
+      serverId: request.serverId,
+      arguments: request.arguments,
+      editedArguments: request.editedArguments,
+      conversationId: request.conversationId,
+      decision,
+      source,
+      ...details,
+      requestedAt: request.timestamp,
+      decidedAt,
+      latencyMs: decidedAt.getTime() - request.timestamp.getTime()
+    });
+  }
+  
+  private rememberApproval(request: HILRequest, scope: HILApprovalScope): void {
+    if (scope === 'conversation' && request.conversationId) {
+      const approvals = this.conversationApprovals.get(request.conversationId) || new Set<string>();
+      approvals.add(request.toolName);
+      this.conversationApprovals.set(request.conversationId, approvals);
+    } else if (scope === 'always') {
+      const prefix = `${request.serverId}.`;
+      HILPolicyService.getInstance()
+        .create({
+          action: 'allow',
+          serverId: request.serverId,
+          toolName: request.toolName.startsWith(prefix) ? request.toolName.slice(prefix.length) : request.toolName,
+          description: 'Always allowed from the approval prompt'
+        })
+        .catch(error => logger.error(`❌ Failed to save HIL policy for ${request.toolName}:`, error));
+    }
+  }
+  
+  /**
+   * Forget "allow for this conversation" approvals
+   */
+  clearConversationApprovals(conversationId: string): void {
+    this.conversationApprovals.delete(conversationId);
   }
   
   /**
@@ -166,6 +431,7 @@ export class HILManager extends EventEmitter {
     for (const request of this.pendingRequests.values()) {
       if (request.status === 'pending') {
         request.status = 'rejected';
+        this.emit(`settled:${request.id}`);
       }
     }
     this.pendingRequests.clear();
@@ -183,7 +449,7 @@ export class HILManager extends EventEmitter {
     return {
       enabled: this.enabled,
       pendingCount: this.getPendingRequests().length,
-      timeoutMs: this.TIMEOUT_MS
+      timeoutMs: this.defaultTimeoutMs
     };
   }
 }
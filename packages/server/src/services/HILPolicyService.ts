@@ -0,0 +1,158 @@
+import { Collection, ObjectId } from 'mongodb';
+import { HILPolicy, HILPolicyAction } from '@olympian/shared';
+import { DatabaseService } from './DatabaseService';
+import { logger } from '../utils/logger';
+
+type HILPolicyDocument = Omit<HILPolicy, '_id'> & { _id?: ObjectId };
+
+export type HILPolicyInput = Omit<HILPolicy, '_id' | 'createdAt' | 'updatedAt'>;
+
+export interface HILPolicyDecision {
+  action: HILPolicyAction;
+  policy?: HILPolicy; // undefined when no rule matched
+}
+
+// Ties between equally specific rules go to the most cautious action
+const ACTION_SEVERITY: Record<HILPolicyAction, number> = { deny: 2, ask: 1, allow: 0 };
+
+function matchesPattern(pattern: string | undefined, value: string): boolean {
+  if (!pattern || pattern === '*') {
+    return true;
+  }
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${escaped}$`, 'i').test(value);
+}
+
+function specificity(policy: HILPolicy): number {
+  const exact = (pattern?: string) => (pattern && !pattern.includes('*') ? 2 : pattern && pattern !== '*' ? 1 : 0);
+  return exact(policy.serverId) + exact(policy.toolName) * 2 + Object.keys(policy.argumentPatterns || {}).length * 4;
+}
+
+/**
+ * Allow, deny and ask rules for tool calls, matched on server, tool name and
+ * arguments. Calls no rule matches are asked about. Rules are cached in memory,
+ * ordered by priority, then specificity, then severity.
+ */
+export class HILPolicyService {
+  private static instance: HILPolicyService;
+  private policies: HILPolicy[] = [];
+
+  private constructor() {}
+
+  static getInstance(): HILPolicyService {
+    if (!HILPolicyService.instance) {
+      HILPolicyService.instance = new HILPolicyService();
+    }
+    return HILPolicyService.instance;
+  }
+
+  /**
+   * Load persisted policies into memory
+   */
+  async initialize(): Promise<void> {
+    try {
+      const documents = await this.getCollection().find().toArray();
+      this.policies = documents.map(doc => this.formatPolicy(doc));
+      this.sort();
+      logger.info(`🛡️ Loaded ${this.policies.length} HIL policies`);
+    } catch (error) {
+      logger.error('❌ Failed to load HIL policies:', error);
+    }
+  }
+
+  list(): HILPolicy[] {
+    return [...this.policies];
+  }
+
+  get(id: string): HILPolicy | undefined {
+    return this.policies.find(policy => policy._id === id);
+  }
+
+  /**
+   * Decide what to do with a call. `toolName` may be qualified (serverId.toolName).
+   */
+  evaluate(params: { serverId: string; toolName: string; arguments?: Record<string, unknown> }): HILPolicyDecision {
+    const prefix = `${params.serverId}.`;
+    const toolName = params.toolName.startsWith(prefix) ? params.toolName.slice(prefix.length) : params.toolName;
+
+    const policy = this.policies.find(candidate =>
+      matchesPattern(candidate.serverId, params.serverId) &&
+      matchesPattern(candidate.toolName, toolName) &&
+      this.matchesArguments(candidate.argumentPatterns, params.arguments)
+    );
+    return policy ? { action: policy.action, policy } : { action: 'ask' };
+  }
+
+  async create(input: HILPolicyInput): Promise<HILPolicy> {
+    const now = new Date();
+    const document: HILPolicyDocument = { ...input, createdAt: now, updatedAt: now };
+    const result = await this.getCollection().insertOne(document);
+
+    const policy = this.formatPolicy({ ...document, _id: result.insertedId });
+    this.policies.push(policy);
+    this.sort();
+    logger.info(`🛡️ Added HIL policy: ${this.describe(policy)}`);
+    return policy;
+  }
+
+  async update(id: string, updates: Partial<HILPolicyInput>): Promise<HILPolicy | null> {
+    const existing = this.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const policy: HILPolicy = { ...existing, ...updates, updatedAt: new Date() };
+    const { _id, ...fields } = policy;
+    await this.getCollection().replaceOne({ _id: new ObjectId(_id) }, fields);
+
+    this.policies = this.policies.map(candidate => (candidate._id === id ? policy : candidate));
+    this.sort();
+    return policy;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    if (!this.get(id)) {
+      return false;
+    }
+
+    await this.getCollection().deleteOne({ _id: new ObjectId(id) });
+    this.policies = this.policies.filter(policy => policy._id !== id);
+    return true;
+  }
+
+  describe(policy: HILPolicy): string {
+    const args = Object.entries(policy.argumentPatterns || {}).map(([name, pattern]) => `${name}~/${pattern}/`);
+    return `${policy.action} ${policy.serverId || '*'}.${policy.toolName || '*'}${args.length ? ` (${args.join(', ')})` : ''}`;
+  }
+
+  // Every pattern must match its argument; objects are matched as JSON
+  private matchesArguments(patterns: Record<string, string> | undefined, args: Record<string, unknown> = {}): boolean {
+    return Object.entries(patterns || {}).every(([name, pattern]) => {
+      if (!(name in args)) {
+        return false;
+      }
+      const value = typeof args[name] === 'string' ? args[name] as string : JSON.stringify(args[name]);
+      try {
+        return new RegExp(pattern).test(value);
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  private sort(): void {
+    this.policies.sort((a, b) =>
+      (b.priority || 0) - (a.priority || 0) ||
+      specificity(b) - specificity(a) ||
+      ACTION_SEVERITY[b.action] - ACTION_SEVERITY[a.action]
+    );
+  }
+
+  private formatPolicy(doc: HILPolicyDocument): HILPolicy {
+    return { ...doc, _id: doc._id?.toString() };
+  }
+
+  private getCollection(): Collection<HILPolicyDocument> {
+    return DatabaseService.getInstance().getDatabase().collection<HILPolicyDocument>('hil_policies');
+  }
+}
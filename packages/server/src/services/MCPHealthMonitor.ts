@@ -0,0 +1,239 @@
+import { MCPRecoveryEvent, MCPServer, MCPServerHealth } from '@olympian/shared';
+import { logger } from '../utils/logger';
+
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const PING_TIMEOUT_MS = 10000;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+const MAX_RECOVERY_EVENTS = 200;
+
+export type MCPHealthChange = 'server_connected' | 'server_disconnected' | 'server_error';
+
+/**
+ * Operations the monitor needs from the manager that owns the connections
+ */
+export interface MCPHealthMonitorHooks {
+  ping: (serverId: string) => Promise<void>;
+  // Tear down and reconnect; resolves true when the server is running again
+  restart: (config: MCPServer) => Promise<boolean>;
+  onHealthChange: (health: MCPServerHealth, change: MCPHealthChange) => void;
+}
+
+interface SupervisedServer {
+  config: MCPServer;
+  health: MCPServerHealth;
+  timer?: NodeJS.Timeout;
+  recovering: boolean;
+}
+
+/**
+ * Supervises MCP servers: pings them periodically, marks them unhealthy on
+ * failure and reconnects with exponential backoff up to maxRetries attempts.
+ */
+export class MCPHealthMonitor {
+  private supervised: Map<string, SupervisedServer> = new Map();
+  private recoveryEvents: MCPRecoveryEvent[] = [];
+
+  constructor(private hooks: MCPHealthMonitorHooks) {}
+
+  /**
+   * Start supervising a server, or refresh the config of one already supervised
+   */
+  watch(config: MCPServer, running: boolean): void {
+    const existing = this.supervised.get(config.id);
+    if (existing) {
+      existing.config = config;
+      return;
+    }
+
+    const entry: SupervisedServer = {
+      config,
+      health: {
+        serverId: config.id,
+        healthStatus: running ? 'healthy' : 'unknown',
+        consecutiveFailures: 0,
+        restartAttempts: 0
+      },
+      recovering: false
+    };
+    this.supervised.set(config.id, entry);
+
+    if (running) {
+      this.scheduleCheck(entry);
+    } else {
+      this.handleFailure(entry, 'Server failed to start', 'server_error');
+    }
+  }
+
+  unwatch(serverId: string): void {
+    const entry = this.supervised.get(serverId);
+    if (!entry) return;
+    clearTimeout(entry.timer);
+    this.supervised.delete(serverId);
+  }
+
+  /**
+   * Report a crash or dropped connection noticed outside of a health check
+   */
+  reportFailure(serverId: string, reason: string): void {
+    const entry = this.supervised.get(serverId);
+    if (!entry || entry.recovering) return;
+    this.handleFailure(entry, reason, 'server_disconnected');
+  }
+
+  getHealth(serverId: string): MCPServerHealth | undefined {
+    const entry = this.supervised.get(serverId);
+    return entry ? { ...entry.health } : undefined;
+  }
+
+  getAllHealth(): MCPServerHealth[] {
+    return Array.from(this.supervised.values()).map(entry => ({ ...entry.health }));
+  }
+
+  getRecoveryEvents(limit = 50): MCPRecoveryEvent[] {
+    return this.recoveryEvents.slice(-limit);
+  }
+
+  recordEvent(event: MCPRecoveryEvent): void {
+    this.recoveryEvents.push(event);
+    if (this.recoveryEvents.length > MAX_RECOVERY_EVENTS) {
+      this.recoveryEvents.shift();
+    }
+  }
+
+  stop(): void {
+    for (const entry of this.supervised.values()) {
+      clearTimeout(entry.timer);
+    }
+    this.supervised.clear();
+  }
+
+  private schedule(entry: SupervisedServer, delay: number, task: () => Promise<void>): void {
+    clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => {
+      task().catch(error => {
+        logger.error(`❌ [MCP] Health supervision failed for ${entry.config.id}:`, error);
+      });
+    }, delay);
+    // Supervision alone should not keep the process alive
+    entry.timer.unref();
+  }
+
+  private scheduleCheck(entry: SupervisedServer): void {
+    const interval = entry.config.healthCheckInterval || DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+    this.schedule(entry, interval, () => this.check(entry));
+  }
+
+  private async check(entry: SupervisedServer): Promise<void> {
+    if (this.supervised.get(entry.config.id) !== entry || entry.recovering) return;
+
+    const { health } = entry;
+    try {
+      await Promise.race([
+        this.hooks.ping(entry.config.id),
+        new Promise((_, reject) => {
+          setTimeout(() => reject(new Error(`Ping timed out after ${PING_TIMEOUT_MS}ms`)), PING_TIMEOUT_MS).unref();
+        })
+      ]);
+    } catch (error) {
+      health.lastHealthCheck = new Date();
+      this.handleFailure(entry, error instanceof Error ? error.message : String(error), 'server_error');
+      return;
+    }
+
+    health.lastHealthCheck = new Date();
+    if (health.healthStatus !== 'healthy') {
+      this.markRecovered(entry);
+    }
+    this.scheduleCheck(entry);
+  }
+
+  private handleFailure(entry: SupervisedServer, reason: string, change: MCPHealthChange): void {
+    const { config, health } = entry;
+    const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    health.healthStatus = 'unhealthy';
+    health.consecutiveFailures++;
+    health.lastError = reason;
+    health.nextRetryAt = undefined;
+
+    const canRetry = config.autoReconnect !== false && health.restartAttempts < maxRetries;
+    this.recordEvent({
+      type: 'server_failed',
+      serverId: config.id,
+      timestamp: new Date(),
+      details: {
+        reason,
+        consecutiveFailures: health.consecutiveFailures,
+        restartAttempts: health.restartAttempts,
+        willRetry: canRetry
+      },
+      severity: canRetry ? 'high' : config.optional ? 'medium' : 'critical'
+    });
+
+    if (canRetry) {
+      const delay = Math.min(BASE_BACKOFF_MS * 2 ** health.restartAttempts, MAX_BACKOFF_MS);
+      health.nextRetryAt = new Date(Date.now() + delay);
+      logger.warn(`⚠️ [MCP] Server ${config.id} unhealthy (${reason}) - reconnecting in ${delay}ms`);
+      this.schedule(entry, delay, () => this.reconnect(entry));
+    } else if (config.autoReconnect === false) {
+      logger.warn(`⚠️ [MCP] Server ${config.id} unhealthy (${reason}) - auto-reconnect disabled`);
+      this.scheduleCheck(entry);
+    } else {
+      logger.error(`❌ [MCP] Server ${config.id} unhealthy (${reason}) - giving up after ${health.restartAttempts} reconnect attempts`);
+      clearTimeout(entry.timer);
+    }
+
+    this.hooks.onHealthChange({ ...health }, change);
+  }
+
+  private async reconnect(entry: SupervisedServer): Promise<void> {
+    if (this.supervised.get(entry.config.id) !== entry) return;
+
+    const { health } = entry;
+    health.restartAttempts++;
+    health.nextRetryAt = undefined;
+    logger.info(`🔄 [MCP] Reconnecting ${entry.config.id} (attempt ${health.restartAttempts})`);
+
+    entry.recovering = true;
+    let running = false;
+    try {
+      running = await this.hooks.restart(entry.config);
+    } finally {
+      entry.recovering = false;
+    }
+
+    // Unwatched while reconnecting (removed or replaced)
+    if (this.supervised.get(entry.config.id) !== entry) return;
+
+    if (running) {
+      this.markRecovered(entry);
+      this.scheduleCheck(entry);
+    } else {
+      this.handleFailure(entry, 'Reconnect failed', 'server_error');
+    }
+  }
+
+  private markRecovered(entry: SupervisedServer): void {
+    const { health } = entry;
+    const attempts = health.restartAttempts;
+
+    health.healthStatus = 'healthy';
+    health.consecutiveFailures = 0;
+    health.restartAttempts = 0;
+    health.lastError = undefined;
+    health.nextRetryAt = undefined;
+
+    this.recordEvent({
+      type: 'server_recovered',
+      serverId: entry.config.id,
+      timestamp: new Date(),
+      details: { restartAttempts: attempts },
+      severity: 'low'
+    });
+    logger.info(`✅ [MCP] Server ${entry.config.id} is healthy again`);
+
+    this.hooks.onHealthChange({ ...health }, 'server_connected');
+  }
+}
@@ -0,0 +1,286 @@
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MCPServer } from '@olympian/shared';
+import { logger } from '../utils/logger';
+
+interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Read a text/event-stream body and invoke the callback for every complete event
+ */
+async function readSSEStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SSEEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  const dispatch = (): void => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName || 'message', data: dataLines.join('\n') });
+    }
+    eventName = '';
+    dataLines = [];
+  };
+
+  try {
+    let chunk = await reader.read();
+    while (!chunk.done) {
+      buffer += decoder.decode(chunk.value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line === '') {
+          dispatch();
+        } else if (line.startsWith(':')) {
+          continue; // Comment / keep-alive
+        } else if (line.startsWith('event:')) {
+          eventName = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+      chunk = await reader.read();
+    }
+    dispatch();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseMessage(raw: string): JSONRPCMessage[] {
+  const parsed = JSON.parse(raw);
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  return items.map(item => JSONRPCMessageSchema.parse(item));
+}
+
+/**
+ * Streamable HTTP client transport (MCP 2025-03-26)
+ * Every message is POSTed to a single endpoint; responses arrive either as
+ * plain JSON or as an SSE stream on the POST response. Also used for plain 'http'.
+ */
+export class StreamableHTTPClientTransport implements Transport {
+  private url: URL;
+  private headers: Record<string, string>;
+  private sessionId?: string;
+  private abortController = new AbortController();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(url: URL, headers: Record<string, string> = {}) {
+    this.url = url;
+    this.headers = headers;
+  }
+
+  async start(): Promise<void> {
+    // Nothing to open up front - the session is established by the initialize request
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        ...this.headers,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId })
+      },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal
+    });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const error = new Error(`HTTP ${response.status} ${response.statusText}: ${text}`);
+      this.onerror?.(error);
+      throw error;
+    }
+
+    // Notifications and responses are acknowledged with 202 and no body
+    if (response.status === 202 || !response.body) {
+      return;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      // Consume the stream in the background so send() resolves once the request is accepted
+      readSSEStream(response.body, event => this.handleRaw(event.data)).catch(error => {
+        if (!this.abortController.signal.aborted) {
+          this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+    } else if (contentType.includes('application/json')) {
+      this.handleRaw(await response.text());
+    }
+  }
+
+  async close(): Promise<void> {
+    this.abortController.abort();
+
+    if (this.sessionId) {
+      // Best effort session termination; servers may answer 405 if unsupported
+      await fetch(this.url, {
+        method: 'DELETE',
+        headers: { ...this.headers, 'Mcp-Session-Id': this.sessionId }
+      }).catch(() => undefined);
+    }
+
+    this.onclose?.();
+  }
+
+  private handleRaw(raw: string): void {
+    if (!raw.trim()) return;
+    try {
+      for (const message of parseMessage(raw)) {
+        this.onmessage?.(message);
+      }
+    } catch (error) {
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
+
+/**
+ * Legacy HTTP+SSE client transport (MCP 2024-11-05)
+ * The SDK's SSEClientTransport relies on the browser EventSource API, so this
+ * implementation reads the event stream with fetch instead.
+ */
+export class NodeSSEClientTransport implements Transport {
+  private url: URL;
+  private headers: Record<string, string>;
+  private endpoint?: URL;
+  private abortController?: AbortController;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(url: URL, headers: Record<string, string> = {}) {
+    this.url = url;
+    this.headers = headers;
+  }
+
+  async start(): Promise<void> {
+    if (this.abortController) {
+      throw new Error('NodeSSEClientTransport already started');
+    }
+    this.abortController = new AbortController();
+
+    const response = await fetch(this.url, {
+      headers: { ...this.headers, Accept: 'text/event-stream' },
+      signal: this.abortController.signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`SSE connection failed: HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const body = response.body;
+
+    // The server announces the POST endpoint as the first event
+    await new Promise<void>((resolve, reject) => {
+      let resolved = false;
+
+      readSSEStream(body, event => {
+        if (event.event === 'endpoint') {
+          try {
+            const endpoint = new URL(event.data, this.url);
+            if (endpoint.origin !== this.url.origin) {
+              throw new Error(`Endpoint origin does not match connection origin: ${endpoint.origin}`);
+            }
+            this.endpoint = endpoint;
+            resolved = true;
+            resolve();
+          } catch (error) {
+            reject(error);
+          }
+          return;
+        }
+
+        try {
+          for (const message of parseMessage(event.data)) {
+            this.onmessage?.(message);
+          }
+        } catch (error) {
+          this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+        }
+      })
+        .then(() => {
+          if (!resolved) {
+            reject(new Error('SSE stream ended before endpoint event'));
+          }
+          this.onclose?.();
+        })
+        .catch(error => {
+          if (!resolved) {
+            reject(error);
+          } else if (!this.abortController?.signal.aborted) {
+            this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+          }
+        });
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new Error('Not connected');
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: this.abortController?.signal
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const error = new Error(`Error POSTing to endpoint (HTTP ${response.status}): ${text}`);
+      this.onerror?.(error);
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    this.abortController?.abort();
+    this.onclose?.();
+  }
+}
+
+/**
+ * Create a client transport for a remote (non-stdio) MCP server
+ */
+export function createRemoteTransport(config: MCPServer): Transport {
+  if (!config.endpoint) {
+    throw new Error(`Server ${config.name} uses ${config.transport} transport but has no endpoint`);
+  }
+
+  const url = new URL(config.endpoint);
+  const headers = config.headers || {};
+
+  logger.info(`[MCP] Using ${config.transport} transport for ${config.name} at ${url.origin}`);
+
+  switch (config.transport) {
+    case 'sse':
+      return new NodeSSEClientTransport(url, headers);
+    case 'http':
+    case 'streamable_http':
+      return new StreamableHTTPClientTransport(url, headers);
+    default:
+      throw new Error(`Unsupported remote transport: ${config.transport}`);
+  }
+}
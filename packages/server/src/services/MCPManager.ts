@@ -1,33 +1,158 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { MCPTool, MCPResource, MCPServer, MCPServerStatus } from '@olympian/shared';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { CreateMessageRequestSchema, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  MCPArgumentValidation,
+  MCPCompletionRequest,
+  MCPCompletionResponse,
+  MCPContent,
+  MCPErrorType,
+  MCPFallbackStrategy,
+  MCPInvokeRequest,
+  MCPMetrics,
+  MCPPrompt,
+  MCPPromptResult,
+  MCPTool,
+  MCPResource,
+  MCPResourceContent,
+  MCPResourceTemplate,
+  MCPRecoveryEvent,
+  MCPServer,
+  MCPServerHealth,
+  MCPServerStatus
+} from '@olympian/shared';
 import { spawn, ChildProcess } from 'child_process';
 import { logger } from '../utils/logger';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { watchFile, unwatchFile } from 'fs';
 import { mcpLogger } from "../utils/mcpLogger";
+import {
+  getActiveMCPConfigPath,
+  loadMCPConfig,
+  parseMCPServers,
+  resolveMCPConfigPath
+} from '../utils/configHelpers';
+import { validateToolArguments } from '../utils/toolArguments';
+import { createRemoteTransport } from './MCPHttpTransports';
+import { MCPHealthChange, MCPHealthMonitor } from './MCPHealthMonitor';
+import { MCPMetricsCollector, MCPServerSnapshot } from './MCPMetricsCollector';
+import { MCPSamplingService } from './MCPSamplingService';
+import { ToolNamespaceManager } from './ToolNamespaceManager';
+import { ToolSelectionService } from './ToolSelectionService';
+import { ToolResultCache } from './ToolResultCache';
+import { WebSocketService } from './WebSocketService';
+
+export interface MCPToolInvocationResult {
+  success: boolean;
+  result?: any;
+  error?: string;
+  errorType?: MCPErrorType;
+  validation?: MCPArgumentValidation;
+  cachedResult?: boolean;
+  serverId?: string; // server that produced the result
+  retryAttempt?: number; // 0 for the primary server, n for the n-th fallback
+}
+
+/**
+ * Failures that another server exposing the same tool may not share. Only
+ * CONNECTION_FAILED happens before the call reaches a server; the others may
+ * follow a call the server already acted on, so they are retried elsewhere
+ * only for idempotent tools (the cacheableTools allowlist).
+ */
+const FALLBACK_ERROR_TYPES: MCPErrorType[] = ['CONNECTION_FAILED'];
+const IDEMPOTENT_FALLBACK_ERROR_TYPES: MCPErrorType[] = ['SERVER_ERROR', 'TIMEOUT', 'NETWORK_ERROR'];
+
+const DEFAULT_TOOL_TIMEOUT_MS = 30000;
 
 interface ServerProcess {
   id: string;
-  name: string;  process: ChildProcess;
+  name: string;
+  process?: ChildProcess; // only set for stdio servers
   client: Client;
-  transport: StdioClientTransport;
+  transport: Transport;
+  transportType: MCPServer['transport'];
+  priority: number;
+  timeout?: number;
+  toolTimeouts?: Record<string, number>;
+  connectedAt: Date;
   status: "running" | "stopped" | "error";
   tools: MCPTool[];
   resources?: MCPResource[];
 }
+
+export interface MCPReconcileResult {
+  added: string[];
+  removed: string[];
+  restarted: string[];
+  unchanged: string[];
+  failed: Array<{ id: string; error: string }>; // servers that could not be stopped, started or restarted
+}
+
+// The chat a tool call was made for
+export interface MCPCallOwner {
+  clientId?: string;
+  conversationId?: string;
+}
+
+/**
+ * Fields that require a restart when they change in the config
+ */
+function serverSignature(server: MCPServer): string {
+  const { transport, command, args, env, endpoint, headers, timeout } = server;
+  return JSON.stringify({ transport, command, args, env, endpoint, headers, timeout });
+}
+
 /**
  * MCPManager - Streamlined to support only 3 MCP servers
  * GitHub, AppleScript, and Context7
+ * Servers run as local child processes (stdio) or as remote endpoints (http, streamable_http, sse)
  */
 export class MCPManager {
   private static instance: MCPManager;
   private servers: Map<string, ServerProcess> = new Map();
   private tools: Map<string, MCPTool[]> = new Map();
+  private configuredServers: Map<string, MCPServer> = new Map();
+  private fallbackStrategies: Map<string, MCPFallbackStrategy> = new Map();
+  private inFlightCalls: Map<string, number> = new Map();
+  private callOwners: Map<string, MCPCallOwner[]> = new Map(); // serverId -> owners of its running calls
+  private activeCalls: Map<string, { controller: AbortController; owner: MCPCallOwner }> = new Map();
+  private globalTimeout?: number;
+  private roundRobinCounters: Map<string, number> = new Map();
+  private reconcileQueue: Promise<unknown> = Promise.resolve();
   private initialized = false;
+  private healthMonitor: MCPHealthMonitor;
 
   private constructor() {
     logger.info('🚀 [MCP] Manager instantiated');
+    this.healthMonitor = new MCPHealthMonitor({
+      ping: async (id) => {
+        const server = this.servers.get(id);
+        if (!server) {
+          throw new Error('Server is not connected');
+        }
+        await server.client.ping();
+      },
+      restart: async (config) => {
+        mcpLogger.logEvent({
+          eventType: "restart",
+          serverId: config.id,
+          serverName: config.name,
+          message: "Reconnecting unhealthy server",
+          details: { transport: config.transport }
+        });
+        if (this.servers.has(config.id)) {
+          await this.disconnectServer(config.id);
+        }
+        try {
+          await this.startServer(config);
+        } catch {
+          return false;
+        }
+        this.syncToolRegistry([config.id]);
+        return this.servers.has(config.id);
+      },
+      onHealthChange: (health, change) => this.handleHealthChange(health, change)
+    });
     mcpLogger.logEvent({
       eventType: "startup",
       message: "MCPManager singleton instantiated",
@@ -43,81 +168,29 @@ export class MCPManager {
   }
 
   /**
-   * Initialize with only 3 required MCP servers
+   * Initialize with the servers defined in the active MCP config file
    */
   async initialize(): Promise<void> {
     if (this.initialized) return;
     logger.info("🚀 [MCP] Initializing MCP manager...");
     
-    // Build server list based on available credentials
-    // Build server list based on available credentials
-    const mcpServers: MCPServer[] = [];
-    
-    
-    // Always add AppleScript server (no credentials needed)
-    mcpServers.push({
-      id: "applescript",
-      name: "applescript",
-      transport: "stdio",
-      command: "npx",
-      args: ["-y", "@sampullman/applescript-mcp"],
-      env: {},
-      status: "stopped"
-    });
-    logger.info('✅ [MCP] AppleScript server configured');
+    let mcpServers: MCPServer[] = [];
+    try {
+      mcpServers = await this.loadServersFromConfig();
+    } catch (error) {
+      logger.error('❌ [MCP] Failed to load MCP config:', error);
+    }
     
-    // Always add Context7 server (no credentials required)
-    mcpServers.push({
-      id: "context7",
-      name: "context7",
-      transport: "stdio",
-      command: "npx",
-      args: ["-y", "@upstash/context7-mcp"],
-      env: {},
-      status: "stopped"
-    });
-    logger.info('✅ [MCP] Context7 server configured');
+    this.watchConfig();
     
     if (mcpServers.length === 0) {
-      logger.warn('⚠️ [MCP] No servers configured - this should not happen');
+      logger.warn('⚠️ [MCP] No servers configured - save a config via /api/config/save to add servers');
       this.initialized = true;
       return;
     }
 
-
-
-
     logger.info("[MCP] Available MCP servers from config:", mcpServers.map(s => s.name));
     logger.info("[MCP] Starting initialization with MCP_ENABLED:", process.env.MCP_ENABLED);
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
     
     // Start all servers
     const results = await Promise.allSettled(
@@ -134,15 +207,134 @@ export class MCPManager {
       }
     });
     
+    this.configuredServers = new Map(mcpServers.map(server => [server.id, server]));
     this.initialized = true;
     logger.info(`✅ [MCP] Initialized with ${this.servers.size} servers`);
   }
 
   /**
-   * Add and start a server
+   * Build the server list from the active config file (throws on invalid config)
+   */
+  private async loadServersFromConfig(): Promise<MCPServer[]> {
+    const configPath = await resolveMCPConfigPath();
+    if (!configPath) {
+      logger.warn('⚠️ [MCP] No MCP config file found (mcp-config.json or MCP_CONFIG_PATH)');
+      return [];
+    }
+    
+    const config = await loadMCPConfig(configPath);
+    const servers = parseMCPServers(config);
+    ToolResultCache.getInstance().configure(config);
+    MCPSamplingService.getInstance().configure(config.sampling);
+    this.globalTimeout = config.globalTimeout;
+    this.fallbackStrategies = new Map(
+      (config.fallbackStrategies || []).map(strategy => [strategy.primaryServerId, strategy])
+    );
+    logger.info(`[MCP] Loaded ${servers.length} servers from ${configPath}`);
+    return servers;
+  }
+
+  /**
+   * Watch the active config file so manual edits are picked up without a restart
+   */
+  private watchConfig(): void {
+    const configPath = getActiveMCPConfigPath();
+    watchFile(configPath, { interval: 2000 }, (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs) return;
+      logger.info(`[MCP] Config file changed: ${configPath}`);
+      this.reloadConfig().catch(error => {
+        logger.error('❌ [MCP] Failed to reload MCP config:', error);
+      });
+    });
+  }
+
+  /**
+   * Reload the config file and reconcile running servers against it.
+   * New entries are started, removed entries stopped and changed entries restarted.
+   * Reloads are serialized so concurrent triggers cannot interleave.
+   */
+  async reloadConfig(): Promise<MCPReconcileResult> {
+    if (!this.initialized) {
+      logger.info('[MCP] Manager not initialized - config will be applied on startup');
+      return { added: [], removed: [], restarted: [], unchanged: [], failed: [] };
+    }
+    
+    const run = this.reconcileQueue.then(() => this.reconcile());
+    this.reconcileQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async reconcile(): Promise<MCPReconcileResult> {
+    const desired = new Map((await this.loadServersFromConfig()).map(server => [server.id, server]));
+    const result: MCPReconcileResult = { added: [], removed: [], restarted: [], unchanged: [], failed: [] };
+
+    // One failing server must not keep the others, or the registry, from being updated
+    const apply = async (id: string, outcome: string[], action: () => Promise<void>, expectRunning = true): Promise<void> => {
+      try {
+        await action();
+        // addServer skips servers with placeholder credentials without throwing
+        if (expectRunning && !this.servers.has(id)) {
+          throw new Error('Server was not started (missing or placeholder credentials)');
+        }
+        outcome.push(id);
+      } catch (error) {
+        logger.error(`❌ [MCP] Failed to reconcile server ${id}:`, error);
+        result.failed.push({ id, error: error instanceof Error ? error.message : String(error) });
+      }
+    };
+
+    for (const id of this.configuredServers.keys()) {
+      if (!desired.has(id)) {
+        await apply(id, result.removed, () => this.stopServer(id), false);
+      }
+    }
+
+    for (const [id, config] of desired) {
+      const previous = this.configuredServers.get(id);
+      if (!previous) {
+        await apply(id, result.added, () => this.addServer(config));
+      } else if (serverSignature(previous) !== serverSignature(config) || !this.servers.has(id)) {
+        // Changed definition, or a server that failed to start / has since exited
+        await apply(id, result.restarted, () => this.restartServer(id, config));
+      } else {
+        this.healthMonitor.watch(config, true);
+        result.unchanged.push(id);
+      }
+    }
+
+    this.configuredServers = desired;
+    this.syncToolRegistry([...result.added, ...result.removed, ...result.restarted, ...result.failed.map(({ id }) => id)]);
+
+    mcpLogger.logEvent({
+      eventType: "restart",
+      message: "MCP config reconciled",
+      details: result
+    });
+    return result;
+  }
+
+  /**
+   * Refresh namespaced tools for the given servers and update tool selection
+   */
+  private syncToolRegistry(serverIds: string[]): void {
+    if (serverIds.length === 0) return;
+    
+    const namespaceManager = ToolNamespaceManager.getInstance();
+    for (const id of serverIds) {
+      namespaceManager.clearServerTools(id);
+      const server = this.servers.get(id);
+      if (server) {
+        namespaceManager.registerTools(id, server.tools);
+      }
+    }
+    ToolSelectionService.getInstance().syncAvailableTools(namespaceManager.getAllTools());
+  }
+
+  /**
+   * Add and start a server, and put it under health supervision
    */
   async addServer(config: MCPServer): Promise<void> {
-    const { id, name, command, args = [], env = {} } = config;
+    const { id, name } = config;
     
     if (this.servers.has(id)) {
       logger.warn(`[MCP] Server ${id} already exists`);
@@ -160,27 +352,78 @@ export class MCPManager {
       }
     }
 
-    logger.info(`[MCP] Starting server: ${name}`);
+    try {
+      await this.startServer(config);
+    } finally {
+      // Supervise failed starts too, so the health monitor keeps retrying them
+      this.healthMonitor.watch(config, this.servers.has(id));
+    }
+  }
+
+  /**
+   * Spawn or connect to a server and list its tools. On failure the process or
+   * connection is cleaned up and the error rethrown.
+   */
+  private async startServer(config: MCPServer): Promise<void> {
+    const { id, name, command, args = [], env = {}, transport: transportType = 'stdio' } = config;
+
+    logger.info(`[MCP] Starting server: ${name} (${transportType})`);
       mcpLogger.logEvent({
         eventType: "startup",
         serverId: id,
         serverName: name,
-        message: "Starting MCP server process",
-        details: { command, args, hasEnv: !!env }
+        message: transportType === 'stdio' ? "Starting MCP server process" : "Connecting to remote MCP server",
+        details: transportType === 'stdio'
+          ? { command, args, hasEnv: !!env }
+          : { transport: transportType, endpoint: config.endpoint }
       });
 
+    let serverProcess: ChildProcess | undefined;
+    let transport: Transport | undefined;
+
     try {
-      // Spawn the server process
-      const serverEnv = { ...process.env, ...env };
-      const serverProcess = spawn(command, args, {
-        env: serverEnv,
-        stdio: ['pipe', 'pipe', 'pipe'],
-        shell: true
-      });
+      if (transportType === 'stdio') {
+        // Spawn the server process
+        const serverEnv = { ...process.env, ...env };
+        const childProcess = spawn(command, args, {
+          env: serverEnv,
+          stdio: ['pipe', 'pipe', 'pipe'],
+          shell: true
+        });
+        serverProcess = childProcess;
+
+        transport = new StdioClientTransport({
+          child: childProcess
+        } as any);
+
+        // Handle process errors
+        childProcess.on('error', (error) => {
+          mcpLogger.logEvent({
+            eventType: "error",
+            serverId: id,
+            serverName: name,
+            message: "Server process error",
+            details: { error: error.message },
+            stackTrace: error.stack
+          });
+          logger.error(`[MCP] Server ${name} process error:`, error);
+          this.handleConnectionLost(id, childProcess, `Process error: ${error.message}`);
+        });
 
-      const transport = new StdioClientTransport({
-        child: serverProcess
-      } as any);
+        childProcess.on('exit', (code) => {
+          mcpLogger.logEvent({
+            eventType: "shutdown",
+            serverId: id,
+            serverName: name,
+            message: `Server exited with code ${code}`,
+            details: { exitCode: code, pid: childProcess.pid }
+          });
+          logger.info(`[MCP] Server ${name} exited with code ${code}`);
+          this.handleConnectionLost(id, childProcess, `Process exited with code ${code}`);
+        });
+      } else {
+        transport = createRemoteTransport(config);
+      }
 
       // Monitor memory usage before creating client
       const memBefore = process.memoryUsage();
@@ -194,6 +437,7 @@ export class MCPManager {
         });
       }
 
+      const sampling = MCPSamplingService.getInstance();
       const client = new Client(
         {
           name: `olympian-${id}`,
@@ -202,36 +446,34 @@ export class MCPManager {
         {
           capabilities: {
             tools: {},
-            resources: {}
+            resources: {},
+            ...(sampling.isEnabled() ? { sampling: {} } : {})
           }
         }
       );
 
-      // Handle process errors
-      serverProcess.on('error', (error) => {
-        mcpLogger.logEvent({
-          eventType: "error",
-          serverId: id,
-          serverName: name,
-          message: "Server process error",
-          details: { error: error.message },
-          stackTrace: error.stack
-        });
-        logger.error(`[MCP] Server ${name} process error:`, error);
-        this.servers.delete(id);
-      });
+      // Servers may ask us to run completions for them (sampling/createMessage)
+      if (sampling.isEnabled()) {
+        client.setRequestHandler(CreateMessageRequestSchema, (request) =>
+          sampling.createMessage(id, request.params, this.getCallOwner(id))
+        );
+      }
 
-      serverProcess.on('exit', (code) => {
-        mcpLogger.logEvent({
-          eventType: "shutdown",
-          serverId: id,
-          serverName: name,
-          message: `Server exited with code ${code}`,
-          details: { exitCode: code, pid: serverProcess.pid }
-        });
-        logger.info(`[MCP] Server ${name} exited with code ${code}`);
-        this.servers.delete(id);
-      });
+      // Remote servers have no process to watch, so track the connection instead
+      if (!serverProcess) {
+        client.onclose = () => {
+          if (this.servers.get(id)?.client !== client) return;
+          mcpLogger.logEvent({
+            eventType: "shutdown",
+            serverId: id,
+            serverName: name,
+            message: "Remote connection closed",
+            details: { transport: transportType, endpoint: config.endpoint }
+          });
+          logger.info(`[MCP] Connection to ${name} closed`);
+          this.handleConnectionLost(id, client, 'Remote connection closed');
+        };
+      }
 
       const connectTimeout = new Promise((_, reject) => {
         setTimeout(() => reject(new Error("Connection timeout after 10s")), 10000);
@@ -244,7 +486,6 @@ export class MCPManager {
         ]);
       } catch (connectError) {
         logger.error("[MCP] Failed to connect to server:", name, connectError);
-        serverProcess.kill();
         throw connectError;
       }
       
@@ -269,34 +510,111 @@ export class MCPManager {
         process: serverProcess,
         client,
         transport,
+        transportType,
+        priority: config.priority ?? 0,
+        timeout: config.timeout,
+        toolTimeouts: config.toolTimeouts,
+        connectedAt: new Date(),
         status: "running",
         tools
       });
     } catch (error) {
       logger.error(`[MCP] Failed to start server ${name}:`, error);
-      logger.error("Failed to start server: ", error);
+      if (serverProcess) {
+        serverProcess.kill();
+      } else {
+        await transport?.close().catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Forget a server whose process or connection went away, and let the health monitor recover it.
+   * The owner check ignores late events from a process that has already been replaced.
+   */
+  private handleConnectionLost(id: string, owner: ChildProcess | Client, reason: string): void {
+    const server = this.servers.get(id);
+    if (!server || (server.process ?? server.client) !== owner) return;
+
+    this.servers.delete(id);
+    this.tools.delete(id);
+    ToolResultCache.getInstance().invalidateServer(id);
+    this.syncToolRegistry([id]);
+    this.healthMonitor.reportFailure(id, reason);
+  }
+
+  /**
+   * Push health transitions to connected clients
+   */
+  private handleHealthChange(health: MCPServerHealth, change: MCPHealthChange): void {
+    const server = this.servers.get(health.serverId);
+    if (server && health.healthStatus === 'unhealthy') {
+      server.status = 'error';
     }
+
+    const ws = WebSocketService.getInstance();
+    ws.broadcast('mcp:server:status', {
+      serverId: health.serverId,
+      status: server?.status ?? (health.nextRetryAt ? 'initializing' : 'error'),
+      error: health.lastError,
+      toolCount: server?.tools.length ?? 0,
+      lastHealthCheck: health.lastHealthCheck,
+      healthStatus: health.healthStatus,
+      consecutiveFailures: health.consecutiveFailures,
+      nextRetryAt: health.nextRetryAt
+    });
+    ws.broadcast('mcp:update', {
+      type: change,
+      serverId: health.serverId,
+      data: health,
+      timestamp: new Date()
+    });
+  }
+
+  /**
+   * Health supervision state for one or all servers
+   */
+  getServerHealth(): MCPServerHealth[] {
+    return this.healthMonitor.getAllHealth();
+  }
+
+  getRecoveryEvents(limit?: number): MCPRecoveryEvent[] {
+    return this.healthMonitor.getRecoveryEvents(limit);
   }
 
   /**
-   * Stop a server
+   * Stop a server and end its health supervision
    */
   async stopServer(id: string): Promise<void> {
+    this.healthMonitor.unwatch(id);
+    await this.disconnectServer(id);
+  }
+
+  /**
+   * Close the connection and terminate the process of a server
+   */
+  private async disconnectServer(id: string): Promise<void> {
     const server = this.servers.get(id);
     if (!server) {
       logger.warn(`[MCP] Server ${id} not found`);
       return;
     }
 
+    // Cached results may not hold for a new server instance
+    ToolResultCache.getInstance().invalidateServer(id);
+
     try {
       await server.client.close();
-      server.process.kill();
+      server.process?.kill();
       this.servers.delete(id);
+      this.tools.delete(id);
       logger.info(`[MCP] Server ${id} stopped`);
     } catch (error) {
       logger.error(`[MCP] Error stopping server ${id}:`, error);
-      server.process.kill('SIGKILL');
+      server.process?.kill('SIGKILL');
       this.servers.delete(id);
+      this.tools.delete(id);
     }
   }
 
@@ -316,50 +634,535 @@ export class MCPManager {
   }
 
   /**
-   * Invoke a tool
+   * List resources from running servers that advertise the resources capability
+   */
+  async listResources(serverId?: string): Promise<MCPResource[]> {
+    const allResources: MCPResource[] = [];
+    
+    for (const server of this.servers.values()) {
+      if (server.status !== 'running' || (serverId && server.id !== serverId)) continue;
+      if (!server.client.getServerCapabilities()?.resources) continue;
+      
+      try {
+        const resources: MCPResource[] = [];
+        let cursor: string | undefined;
+        do {
+          const response = await server.client.listResources(cursor ? { cursor } : undefined);
+          resources.push(...response.resources.map(resource => ({
+            serverId: server.id,
+            uri: resource.uri,
+            name: resource.name,
+            description: resource.description,
+            mimeType: resource.mimeType
+          })));
+          cursor = response.nextCursor;
+        } while (cursor);
+        
+        server.resources = resources;
+        allResources.push(...resources);
+      } catch (error) {
+        logger.warn(`[MCP] Failed to list resources for ${server.name}:`, error);
+      }
+    }
+    
+    return allResources;
+  }
+
+  /**
+   * List resource templates from running servers that advertise the resources capability
+   */
+  async listResourceTemplates(serverId?: string): Promise<MCPResourceTemplate[]> {
+    const allTemplates: MCPResourceTemplate[] = [];
+    
+    for (const server of this.servers.values()) {
+      if (server.status !== 'running' || (serverId && server.id !== serverId)) continue;
+      if (!server.client.getServerCapabilities()?.resources) continue;
+      
+      try {
+        let cursor: string | undefined;
+        do {
+          const response = await server.client.listResourceTemplates(cursor ? { cursor } : undefined);
+          allTemplates.push(...response.resourceTemplates.map(template => ({
+            serverId: server.id,
+            uriTemplate: template.uriTemplate,
+            name: template.name,
+            description: template.description,
+            mimeType: template.mimeType
+          })));
+          cursor = response.nextCursor;
+        } while (cursor);
+      } catch (error) {
+        logger.warn(`[MCP] Failed to list resource templates for ${server.name}:`, error);
+      }
+    }
+    
+    return allTemplates;
+  }
+
+  /**
+   * Read a resource from a server
+   */
+  async readResource(serverId: string, uri: string): Promise<MCPResourceContent[]> {
+    const server = this.servers.get(serverId);
+    
+    if (!server || server.status !== 'running') {
+      throw new Error(`Server ${serverId} is not running`);
+    }
+    
+    const response = await server.client.readResource({ uri });
+    return response.contents.map(content => ({
+      type: 'resource' as const,
+      uri: content.uri,
+      mimeType: content.mimeType,
+      text: typeof content.text === 'string' ? content.text : undefined,
+      blob: typeof content.blob === 'string' ? content.blob : undefined
+    }));
+  }
+
+  /**
+   * List prompts from running servers that advertise the prompts capability
+   */
+  async listPrompts(serverId?: string): Promise<MCPPrompt[]> {
+    const allPrompts: MCPPrompt[] = [];
+    
+    for (const server of this.servers.values()) {
+      if (server.status !== 'running' || (serverId && server.id !== serverId)) continue;
+      if (!server.client.getServerCapabilities()?.prompts) continue;
+      
+      try {
+        let cursor: string | undefined;
+        do {
+          const response = await server.client.listPrompts(cursor ? { cursor } : undefined);
+          allPrompts.push(...response.prompts.map(prompt => ({
+            serverId: server.id,
+            name: prompt.name,
+            description: prompt.description,
+            arguments: prompt.arguments
+          })));
+          cursor = response.nextCursor;
+        } while (cursor);
+      } catch (error) {
+        logger.warn(`[MCP] Failed to list prompts for ${server.name}:`, error);
+      }
+    }
+    
+    return allPrompts;
+  }
+
+  /**
+   * Render a prompt with the given arguments
+   */
+  async getPrompt(serverId: string, name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    const server = this.servers.get(serverId);
+    
+    if (!server || server.status !== 'running') {
+      throw new Error(`Server ${serverId} is not running`);
+    }
+    
+    const response = await server.client.getPrompt({ name, arguments: args });
+    return {
+      description: response.description,
+      messages: response.messages.map(message => {
+        let content: MCPContent;
+        if (message.content.type === 'text') {
+          content = { type: 'text', text: message.content.text };
+        } else if (message.content.type === 'image') {
+          content = { type: 'image', data: message.content.data, mimeType: message.content.mimeType };
+        } else {
+          const resource = message.content.resource;
+          content = {
+            type: 'resource',
+            uri: resource.uri,
+            mimeType: resource.mimeType,
+            text: typeof resource.text === 'string' ? resource.text : undefined,
+            blob: typeof resource.blob === 'string' ? resource.blob : undefined
+          };
+        }
+        return { role: message.role, content };
+      })
+    };
+  }
+
+  /**
+   * Ask a server to complete a prompt argument or resource template variable
+   */
+  async complete(serverId: string, request: MCPCompletionRequest): Promise<MCPCompletionResponse> {
+    const server = this.servers.get(serverId);
+    
+    if (!server || server.status !== 'running') {
+      throw new Error(`Server ${serverId} is not running`);
+    }
+    
+    const ref = request.ref.type === 'ref/prompt'
+      ? { type: 'ref/prompt' as const, name: request.ref.name || '' }
+      : { type: 'ref/resource' as const, uri: request.ref.uri || '' };
+    
+    try {
+      const response = await server.client.complete({
+        ref,
+        argument: request.argument,
+        ...(request.context && { context: request.context })
+      });
+      
+      return {
+        completion: {
+          values: response.completion.values,
+          total: response.completion.total,
+          hasMore: response.completion.hasMore
+        }
+      };
+    } catch (error) {
+      // Completion is optional - servers without it simply offer no suggestions
+      if (error instanceof McpError && error.code === ErrorCode.MethodNotFound) {
+        return { completion: { values: [], hasMore: false } };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Invoke a tool, falling back to other servers exposing the same tool when the
+   * primary is unavailable or fails. Without an explicit fallbackStrategy the
+   * strategy configured for the primary server (if any) is used.
    */
   async invokeTool(params: {
     serverId: string;
     toolName: string;
     arguments: any;
-  }): Promise<{
-    success: boolean;
-    result?: any;
-    error?: string;
-  }> {
+    fallbackStrategy?: MCPInvokeRequest['fallbackStrategy'];
+    preferredServerIds?: string[];
+    callId?: string; // lets the call be cancelled with cancelToolCall
+    owner?: MCPCallOwner;
+  }): Promise<MCPToolInvocationResult> {
+    const controller = new AbortController();
+    if (params.callId) {
+      this.activeCalls.set(params.callId, { controller, owner: { ...params.owner } });
+    }
+
+    try {
+      return await this.invokeWithFallback(params, controller.signal);
+    } finally {
+      if (params.callId && this.activeCalls.get(params.callId)?.controller === controller) {
+        this.activeCalls.delete(params.callId);
+      }
+    }
+  }
+
+  /**
+   * The chat a running tool call was made for, undefined when it is not running.
+   * Callers acting for a client check this before cancelling.
+   */
+  getToolCallOwner(callId: string): MCPCallOwner | undefined {
+    return this.activeCalls.get(callId)?.owner;
+  }
+
+  /**
+   * Abort a running tool call started with a callId
+   */
+  cancelToolCall(callId: string): boolean {
+    const call = this.activeCalls.get(callId);
+    if (!call) {
+      return false;
+    }
+    logger.info(`🛑 [MCP] Cancelling tool call ${callId}`);
+    call.controller.abort();
+    return true;
+  }
+
+  private async invokeWithFallback(params: {
+    serverId: string;
+    toolName: string;
+    arguments: any;
+    fallbackStrategy?: MCPInvokeRequest['fallbackStrategy'];
+    preferredServerIds?: string[];
+    owner?: MCPCallOwner;
+  }, signal: AbortSignal): Promise<MCPToolInvocationResult> {
+    const route = this.resolveFallbackRoute(params);
+    let result: MCPToolInvocationResult = { success: false };
+
+    for (let attempt = 0; attempt < route.serverIds.length; attempt++) {
+      const serverId = route.serverIds[attempt];
+
+      if (attempt > 0) {
+        logger.warn(`⚠️ [MCP] Falling back to ${serverId} for ${params.toolName} after: ${result.error}`);
+        this.healthMonitor.recordEvent({
+          type: 'fallback_activated',
+          serverId: params.serverId,
+          timestamp: new Date(),
+          details: {
+            toolName: params.toolName,
+            fallbackServerId: serverId,
+            retryAttempt: attempt,
+            error: result.error
+          },
+          severity: 'medium'
+        });
+        if (route.retryDelay > 0) {
+          await new Promise(resolve => setTimeout(resolve, route.retryDelay));
+        }
+      }
+
+      const startTime = Date.now();
+      result = {
+        ...(await this.invokeOnServer({ serverId, toolName: params.toolName, arguments: params.arguments, owner: params.owner }, signal)),
+        serverId,
+        retryAttempt: attempt
+      };
+      MCPMetricsCollector.getInstance().recordInvocation({
+        serverId,
+        toolName: params.toolName,
+        success: result.success,
+        duration: Date.now() - startTime,
+        errorType: result.errorType,
+        cachedResult: result.cachedResult
+      });
+
+      if (result.success || !result.errorType || !this.canFallBack(serverId, params.toolName, result.errorType)) {
+        return result;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether a failed call may be replayed on another server without repeating
+   * a side effect the failing server may already have caused
+   */
+  private canFallBack(serverId: string, toolName: string, errorType: MCPErrorType): boolean {
+    return FALLBACK_ERROR_TYPES.includes(errorType) ||
+      (IDEMPOTENT_FALLBACK_ERROR_TYPES.includes(errorType) && ToolResultCache.getInstance().isIdempotent(serverId, toolName));
+  }
+
+  /**
+   * Ordered list of servers to try: the primary first (unless unhealthy and an
+   * alternative exists), then fallbacks that expose a tool with the same name
+   */
+  private resolveFallbackRoute(params: {
+    serverId: string;
+    toolName: string;
+    fallbackStrategy?: MCPInvokeRequest['fallbackStrategy'];
+    preferredServerIds?: string[];
+  }): { serverIds: string[]; retryDelay: number } {
+    const primary = params.serverId;
+    const configured = this.fallbackStrategies.get(primary);
+    const noFallback = { serverIds: [primary], retryDelay: 0 };
+
+    if (params.fallbackStrategy === 'none' || (!params.fallbackStrategy && !configured)) {
+      return noFallback;
+    }
+
+    const exposesTool = (id: string): boolean =>
+      id !== primary && !!this.servers.get(id)?.tools.some(tool => tool.name === params.toolName);
+    const preferred = (params.preferredServerIds || []).filter(exposesTool);
+    let fallbacks: string[];
+    let maxRetries = Infinity;
+    let retryDelay = 0;
+
+    if (params.fallbackStrategy) {
+      // 'any' prefers healthy servers, 'priority' follows the configured server priority
+      const candidates = Array.from(this.servers.keys()).filter(id => exposesTool(id) && !preferred.includes(id));
+      fallbacks = params.fallbackStrategy === 'priority'
+        ? this.orderFallbacks(candidates, 'priority', primary)
+        : this.orderFallbacks(candidates, 'health_based', primary);
+    } else {
+      const strategy = configured as MCPFallbackStrategy;
+      const candidates = strategy.fallbackServerIds.filter(id => exposesTool(id) && !preferred.includes(id));
+      fallbacks = this.orderFallbacks(candidates, strategy.strategy, primary);
+      maxRetries = strategy.maxRetries;
+      retryDelay = strategy.retryDelay;
+    }
+
+    fallbacks = [...preferred, ...fallbacks].slice(0, maxRetries);
+    if (fallbacks.length === 0) {
+      return noFallback;
+    }
+
+    // Skip straight to the alternatives when the primary is known to be down
+    const primaryHealth = this.healthMonitor.getHealth(primary)?.healthStatus;
+    const primaryUsable = this.servers.get(primary)?.status === 'running' && primaryHealth !== 'unhealthy';
+    return {
+      serverIds: primaryUsable ? [primary, ...fallbacks] : fallbacks,
+      retryDelay
+    };
+  }
+
+  private orderFallbacks(
+    candidates: string[],
+    strategy: MCPFallbackStrategy['strategy'],
+    primary: string
+  ): string[] {
+    const health = (id: string): number => {
+      const state = this.healthMonitor.getHealth(id);
+      return state?.healthStatus === 'unhealthy' ? state.consecutiveFailures + 1 : 0;
+    };
+
+    switch (strategy) {
+      case 'priority':
+        // Stable sort keeps list order for equal priorities
+        return [...candidates].sort(
+          (a, b) => (this.servers.get(b)?.priority ?? 0) - (this.servers.get(a)?.priority ?? 0)
+        );
+      case 'health_based':
+        return [...candidates].sort((a, b) => health(a) - health(b));
+      case 'load_based':
+        return [...candidates].sort(
+          (a, b) => (this.inFlightCalls.get(a) || 0) - (this.inFlightCalls.get(b) || 0)
+        );
+      case 'round_robin': {
+        if (candidates.length === 0) return candidates;
+        const offset = (this.roundRobinCounters.get(primary) || 0) % candidates.length;
+        this.roundRobinCounters.set(primary, offset + 1);
+        return [...candidates.slice(offset), ...candidates.slice(0, offset)];
+      }
+      default:
+        return candidates;
+    }
+  }
+
+  /**
+   * Invoke a tool on one specific server
+   */
+  private async invokeOnServer(params: {
+    serverId: string;
+    toolName: string;
+    arguments: Record<string, unknown>;
+    owner?: MCPCallOwner;
+  }, signal: AbortSignal): Promise<MCPToolInvocationResult> {
+    if (signal.aborted) {
+      return {
+        success: false,
+        error: 'Tool call cancelled by user',
+        errorType: 'CANCELLED'
+      };
+    }
+
     const server = this.servers.get(params.serverId);
     
     if (!server) {
       return {
         success: false,
-        error: `Server ${params.serverId} not found`
+        error: `Server ${params.serverId} not found`,
+        errorType: 'CONNECTION_FAILED'
       };
     }
 
     if (server.status !== 'running') {
       return {
         success: false,
-        error: `Server ${params.serverId} is not running`
+        error: `Server ${params.serverId} is not running`,
+        errorType: 'CONNECTION_FAILED'
       };
     }
 
+    // Reject malformed arguments here instead of letting the server fail on them
+    let args: Record<string, unknown> | undefined = params.arguments;
+    const tool = server.tools.find(t => t.name === params.toolName);
+    if (tool) {
+      const validation = validateToolArguments(tool.inputSchema, params.arguments);
+      if (!validation.isValid) {
+        logger.warn(`[MCP] Invalid arguments for ${params.serverId}.${params.toolName}:`, validation.errors);
+        return {
+          success: false,
+          error: `Invalid arguments for ${params.toolName}: ${validation.errors?.join('; ')}`,
+          errorType: 'VALIDATION_ERROR',
+          validation
+        };
+      }
+      if (validation.warnings) {
+        logger.debug(`[MCP] Adjusted arguments for ${params.serverId}.${params.toolName}:`, validation.warnings);
+      }
+      args = validation.sanitizedArguments;
+    }
+
+    const cache = ToolResultCache.getInstance();
+    const cacheable = cache.isCacheable(params.serverId, params.toolName);
+    if (cacheable) {
+      const cached = cache.get(params.serverId, params.toolName, args);
+      if (cached.hit) {
+        logger.debug(`[MCP] Cache hit for ${params.serverId}.${params.toolName}`);
+        return {
+          success: true,
+          result: cached.result,
+          cachedResult: true
+        };
+      }
+    }
+
+    // Per-tool timeout, then the server's, then the global default
+    const timeout = server.toolTimeouts?.[params.toolName] ?? server.timeout ?? this.globalTimeout ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort();
+    signal.addEventListener('abort', onAbort);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+
+    this.inFlightCalls.set(params.serverId, (this.inFlightCalls.get(params.serverId) || 0) + 1);
+    const owner: MCPCallOwner = { ...params.owner };
+    this.callOwners.set(params.serverId, [...(this.callOwners.get(params.serverId) || []), owner]);
     try {
       const result = await server.client.callTool({
         name: params.toolName,
-        arguments: params.arguments
-      });
+        arguments: args
+      }, undefined, { signal: controller.signal });
+
+      // Tool-level errors are reported in the result and must not be cached
+      if (cacheable && !result.isError) {
+        cache.set(params.serverId, params.toolName, args, result.content);
+      }
 
       return {
         success: true,
         result: result.content
       };
     } catch (error: any) {
+      if (timedOut) {
+        logger.warn(`⚠️ [MCP] ${params.serverId}.${params.toolName} timed out after ${timeout}ms`);
+        return {
+          success: false,
+          error: `Tool ${params.toolName} timed out after ${timeout}ms`,
+          errorType: 'TIMEOUT'
+        };
+      }
+      if (signal.aborted) {
+        return {
+          success: false,
+          error: 'Tool call cancelled by user',
+          errorType: 'CANCELLED'
+        };
+      }
       logger.error(`[MCP] Tool invocation failed:`, error);
       return {
         success: false,
-        error: error.message || 'Tool invocation failed'
+        error: error.message || 'Tool invocation failed',
+        errorType: 'SERVER_ERROR'
       };
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      this.inFlightCalls.set(params.serverId, (this.inFlightCalls.get(params.serverId) || 1) - 1);
+      this.callOwners.set(params.serverId, (this.callOwners.get(params.serverId) || []).filter(entry => entry !== owner));
+    }
+  }
+
+  /**
+   * The chat whose tool calls are running on a server. Undefined when no chat's
+   * calls are running there, or several chats' are and a request from the
+   * server cannot be attributed to one of them.
+   */
+  getCallOwner(serverId: string): MCPCallOwner | undefined {
+    const owners = this.callOwners.get(serverId) || [];
+    const [first] = owners;
+    if (!first || (!first.clientId && !first.conversationId)) {
+      return undefined;
     }
+    const sameChat = owners.every(owner =>
+      owner.clientId === first.clientId && owner.conversationId === first.conversationId
+    );
+    return sameChat ? first : undefined;
   }
 
   /**
@@ -379,7 +1182,8 @@ export class MCPManager {
       id,
       name: server.name || "unknown",
       status: server.status,
-      tools: this.tools.get(id)?.length || 0
+      tools: this.tools.get(id)?.length || 0,
+      healthStatus: this.healthMonitor.getHealth(id)?.healthStatus
     };  }
 
   /**
@@ -414,6 +1218,38 @@ export class MCPManager {
     };
   }
 
+  /**
+   * Invocation metrics in the shared MCPMetrics shape
+   */
+  getMetrics(): MCPMetrics {
+    return MCPMetricsCollector.getInstance().getMetrics(
+      this.getServerSnapshots(),
+      ToolResultCache.getInstance().getStats()
+    );
+  }
+
+  /**
+   * Invocation metrics in the Prometheus text exposition format
+   */
+  getPrometheusMetrics(): string {
+    return MCPMetricsCollector.getInstance().toPrometheus(
+      this.getServerSnapshots(),
+      ToolResultCache.getInstance().getStats()
+    );
+  }
+
+  private getServerSnapshots(): MCPServerSnapshot[] {
+    const ids = new Set([...this.configuredServers.keys(), ...this.servers.keys()]);
+    return Array.from(ids).map(id => {
+      const server = this.servers.get(id);
+      return {
+        id,
+        running: server?.status === 'running',
+        connectedAt: server?.connectedAt
+      };
+    });
+  }
+
   /**
    * Shutdown all servers
    */
@@ -434,7 +1270,10 @@ export class MCPManager {
     
     await Promise.allSettled(stopPromises);
     
+    this.healthMonitor.stop();
+    unwatchFile(getActiveMCPConfigPath());
     this.servers.clear();
+    this.configuredServers.clear();
     this.initialized = false;
     
     logger.info('[MCP] All servers shut down');
@@ -455,6 +1294,10 @@ export class MCPManager {
     serverId: string;
     toolName: string;
     arguments: any;
+    fallbackStrategy?: MCPInvokeRequest['fallbackStrategy'];
+    preferredServerIds?: string[];
+    callId?: string;
+    owner?: MCPCallOwner;
   }): Promise<any> {
     return this.invokeTool(params);
   }
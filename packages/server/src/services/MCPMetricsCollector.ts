@@ -0,0 +1,248 @@
+import { MCPErrorType, MCPMetrics, MCPResultCacheStats } from '@olympian/shared';
+
+const RATE_WINDOW_MS = 60 * 1000;
+// Upper bounds in seconds for the latency histogram
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export interface MCPInvocationSample {
+  serverId: string;
+  toolName: string;
+  success: boolean;
+  duration: number; // in milliseconds
+  errorType?: MCPErrorType;
+  cachedResult?: boolean;
+}
+
+/**
+ * Connection state the collector cannot observe itself
+ */
+export interface MCPServerSnapshot {
+  id: string;
+  running: boolean;
+  connectedAt?: Date;
+}
+
+interface ToolStats {
+  serverId: string;
+  toolName: string;
+  requests: number;
+  failures: number;
+  cacheHits: number;
+  totalDuration: number;
+  lastResponseTime?: number;
+  lastInvokedAt: number;
+  bucketCounts: number[]; // cumulative counts per LATENCY_BUCKETS entry
+  errors: Map<string, number>;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Collects per-server and per-tool invocation metrics for MCP tools
+ */
+export class MCPMetricsCollector {
+  private static instance: MCPMetricsCollector;
+  private readonly startedAt = Date.now();
+  private tools: Map<string, ToolStats> = new Map();
+  private recentRequests: number[] = [];
+  private recentErrors: number[] = [];
+
+  private constructor() {}
+
+  static getInstance(): MCPMetricsCollector {
+    if (!MCPMetricsCollector.instance) {
+      MCPMetricsCollector.instance = new MCPMetricsCollector();
+    }
+    return MCPMetricsCollector.instance;
+  }
+
+  recordInvocation(sample: MCPInvocationSample): void {
+    const key = `${sample.serverId}.${sample.toolName}`;
+    let stats = this.tools.get(key);
+    if (!stats) {
+      stats = {
+        serverId: sample.serverId,
+        toolName: sample.toolName,
+        requests: 0,
+        failures: 0,
+        cacheHits: 0,
+        totalDuration: 0,
+        lastInvokedAt: 0,
+        bucketCounts: LATENCY_BUCKETS.map(() => 0),
+        errors: new Map()
+      };
+      this.tools.set(key, stats);
+    }
+
+    const now = Date.now();
+    stats.requests++;
+    stats.totalDuration += sample.duration;
+    stats.lastResponseTime = sample.duration;
+    stats.lastInvokedAt = now;
+    if (sample.cachedResult) {
+      stats.cacheHits++;
+    }
+
+    const seconds = sample.duration / 1000;
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) {
+        stats.bucketCounts[index]++;
+      }
+    });
+
+    this.recentRequests.push(now);
+    if (!sample.success) {
+      stats.failures++;
+      const errorType = sample.errorType || 'UNKNOWN';
+      stats.errors.set(errorType, (stats.errors.get(errorType) || 0) + 1);
+      this.recentErrors.push(now);
+    }
+    this.pruneWindow(now);
+  }
+
+  /**
+   * Aggregate into the shared MCPMetrics shape
+   */
+  getMetrics(servers: MCPServerSnapshot[], cacheStats?: MCPResultCacheStats): MCPMetrics {
+    const now = Date.now();
+    this.pruneWindow(now);
+
+    const serverMetrics: MCPMetrics['serverMetrics'] = {};
+    const totalDurations: Record<string, number> = {};
+    const lastInvokedAt: Record<string, number> = {};
+    let totalRequests = 0;
+    let failedRequests = 0;
+    let totalDuration = 0;
+
+    for (const server of servers) {
+      serverMetrics[server.id] = {
+        requests: 0,
+        failures: 0,
+        averageResponseTime: 0,
+        uptime: this.serverUptime(server, now)
+      };
+    }
+
+    for (const stats of this.tools.values()) {
+      const entry = serverMetrics[stats.serverId] ??= {
+        requests: 0,
+        failures: 0,
+        averageResponseTime: 0,
+        uptime: 0
+      };
+      entry.requests += stats.requests;
+      entry.failures += stats.failures;
+      if (stats.lastInvokedAt > (lastInvokedAt[stats.serverId] || 0)) {
+        lastInvokedAt[stats.serverId] = stats.lastInvokedAt;
+        entry.lastResponseTime = stats.lastResponseTime;
+      }
+      totalDurations[stats.serverId] = (totalDurations[stats.serverId] || 0) + stats.totalDuration;
+
+      totalRequests += stats.requests;
+      failedRequests += stats.failures;
+      totalDuration += stats.totalDuration;
+    }
+
+    for (const [id, entry] of Object.entries(serverMetrics)) {
+      entry.averageResponseTime = entry.requests > 0 ? (totalDurations[id] || 0) / entry.requests : 0;
+    }
+
+    return {
+      totalRequests,
+      successfulRequests: totalRequests - failedRequests,
+      failedRequests,
+      averageResponseTime: totalRequests > 0 ? totalDuration / totalRequests : 0,
+      cacheHitRate: cacheStats?.hitRate ?? 0,
+      uptime: now - this.startedAt,
+      activeConnections: servers.filter(server => server.running).length,
+      serverMetrics,
+      requestsPerMinute: this.recentRequests.length,
+      errorsPerMinute: this.recentErrors.length,
+      lastUpdated: new Date(now)
+    };
+  }
+
+  /**
+   * Render metrics in the Prometheus text exposition format (version 0.0.4)
+   */
+  toPrometheus(servers: MCPServerSnapshot[], cacheStats?: MCPResultCacheStats): string {
+    const now = Date.now();
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string): void => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    };
+
+    family('mcp_tool_requests_total', 'counter', 'MCP tool invocations by result.');
+    for (const stats of this.tools.values()) {
+      const base = { server: stats.serverId, tool: stats.toolName };
+      lines.push(`mcp_tool_requests_total${labels({ ...base, status: 'success' })} ${stats.requests - stats.failures}`);
+      lines.push(`mcp_tool_requests_total${labels({ ...base, status: 'failure' })} ${stats.failures}`);
+    }
+
+    family('mcp_tool_errors_total', 'counter', 'Failed MCP tool invocations by error type.');
+    for (const stats of this.tools.values()) {
+      for (const [errorType, count] of stats.errors) {
+        lines.push(`mcp_tool_errors_total${labels({ server: stats.serverId, tool: stats.toolName, error_type: errorType })} ${count}`);
+      }
+    }
+
+    family('mcp_tool_cache_hits_total', 'counter', 'MCP tool invocations served from the result cache.');
+    for (const stats of this.tools.values()) {
+      lines.push(`mcp_tool_cache_hits_total${labels({ server: stats.serverId, tool: stats.toolName })} ${stats.cacheHits}`);
+    }
+
+    family('mcp_tool_request_duration_seconds', 'histogram', 'MCP tool invocation latency.');
+    for (const stats of this.tools.values()) {
+      const base = { server: stats.serverId, tool: stats.toolName };
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        lines.push(`mcp_tool_request_duration_seconds_bucket${labels({ ...base, le: String(bound) })} ${stats.bucketCounts[index]}`);
+      });
+      lines.push(`mcp_tool_request_duration_seconds_bucket${labels({ ...base, le: '+Inf' })} ${stats.requests}`);
+      lines.push(`mcp_tool_request_duration_seconds_sum${labels(base)} ${stats.totalDuration / 1000}`);
+      lines.push(`mcp_tool_request_duration_seconds_count${labels(base)} ${stats.requests}`);
+    }
+
+    family('mcp_server_up', 'gauge', 'Whether the MCP server is connected (1) or not (0).');
+    for (const server of servers) {
+      lines.push(`mcp_server_up${labels({ server: server.id })} ${server.running ? 1 : 0}`);
+    }
+
+    family('mcp_server_uptime_seconds', 'gauge', 'Seconds since the MCP server connected.');
+    for (const server of servers) {
+      lines.push(`mcp_server_uptime_seconds${labels({ server: server.id })} ${this.serverUptime(server, now) / 1000}`);
+    }
+
+    if (cacheStats) {
+      family('mcp_result_cache_entries', 'gauge', 'Live entries in the MCP tool result cache.');
+      lines.push(`mcp_result_cache_entries ${cacheStats.entries}`);
+      family('mcp_result_cache_evictions_total', 'counter', 'Entries evicted from the MCP tool result cache.');
+      lines.push(`mcp_result_cache_evictions_total ${cacheStats.evictions}`);
+    }
+
+    family('mcp_uptime_seconds', 'gauge', 'Seconds since the MCP manager started.');
+    lines.push(`mcp_uptime_seconds ${(now - this.startedAt) / 1000}`);
+
+    return lines.join('\n') + '\n';
+  }
+
+  private serverUptime(server: MCPServerSnapshot, now: number): number {
+    return server.running && server.connectedAt ? now - server.connectedAt.getTime() : 0;
+  }
+
+  private pruneWindow(now: number): void {
+    const cutoff = now - RATE_WINDOW_MS;
+    while (this.recentRequests.length > 0 && this.recentRequests[0] < cutoff) {
+      this.recentRequests.shift();
+    }
+    while (this.recentErrors.length > 0 && this.recentErrors[0] < cutoff) {
+      this.recentErrors.shift();
+    }
+  }
+}
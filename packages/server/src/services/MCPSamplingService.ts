@@ -0,0 +1,169 @@
+import { CreateMessageRequest, CreateMessageResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MCPSamplingConfig, ProcessedRequest } from '@olympian/shared';
+import { logger } from '../utils/logger';
+import { HILManager } from './HILManager';
+import { MCPCallOwner } from './MCPManager';
+import { OllamaStreamliner } from './OllamaStreamliner';
+
+const DEFAULT_MAX_TOKENS = 1024;
+const PREVIEW_CHARS = 500;
+
+type SamplingParams = CreateMessageRequest['params'];
+
+/**
+ * Answers sampling/createMessage requests from MCP servers by running them on Ollama.
+ * Every request is shown through HILManager to the chat whose tool call the
+ * server is running, and the user must approve it as shown before it is sent
+ * to the model. Policies and earlier approvals do not apply.
+ */
+export class MCPSamplingService {
+  private static instance: MCPSamplingService;
+  private config: MCPSamplingConfig = {};
+  private streamliner: OllamaStreamliner | null = null;
+
+  private constructor() {}
+
+  static getInstance(): MCPSamplingService {
+    if (!MCPSamplingService.instance) {
+      MCPSamplingService.instance = new MCPSamplingService();
+    }
+    return MCPSamplingService.instance;
+  }
+
+  configure(config: MCPSamplingConfig = {}): void {
+    this.config = config;
+  }
+
+  /**
+   * Whether clients should advertise the sampling capability
+   */
+  isEnabled(): boolean {
+    return this.config.enabled !== false;
+  }
+
+  async createMessage(serverId: string, params: SamplingParams, owner?: MCPCallOwner): Promise<CreateMessageResult> {
+    if (!this.isEnabled()) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Sampling is disabled');
+    }
+    // Without HIL nobody reviews the request, and approval would be automatic
+    if (!HILManager.getInstance().isEnabled()) {
+      logger.warn(`⚠️ [MCP] Sampling request from ${serverId} refused - human-in-the-loop is disabled`);
+      throw new McpError(ErrorCode.InvalidRequest, 'Sampling requires human-in-the-loop approval (HIL_ENABLED=true)');
+    }
+    // Only the chat that called the server may answer, so the prompt is never shown to every client
+    if (!owner) {
+      logger.warn(`⚠️ [MCP] Sampling request from ${serverId} refused - it is not running a tool call for a single chat`);
+      throw new McpError(ErrorCode.InvalidRequest, 'Sampling is only available while a tool call from a chat is running');
+    }
+
+    const model = await this.resolveModel(params);
+    const maxTokens = Math.min(params.maxTokens, this.config.maxTokens || params.maxTokens || DEFAULT_MAX_TOKENS);
+
+    const { approved } = await HILManager.getInstance().requestApproval({
+      toolName: 'sampling/createMessage',
+      serverId,
+      clientId: owner.clientId,
+      conversationId: owner.conversationId,
+      alwaysAsk: true,
+      arguments: {
+        model,
+        systemPrompt: params.systemPrompt,
+        messages: params.messages.map(message => ({
+          role: message.role,
+          content: message.content.type === 'text'
+            ? this.preview(String(message.content.text))
+            : `[${message.content.type}]`
+        })),
+        maxTokens,
+        temperature: params.temperature
+      }
+    });
+    if (!approved) {
+      logger.warn(`⚠️ [MCP] Sampling request from ${serverId} rejected`);
+      throw new McpError(ErrorCode.InvalidRequest, 'Sampling request was rejected by the user');
+    }
+
+    logger.info(`🧠 [MCP] Sampling ${params.messages.length} message(s) for ${serverId} with ${model}`);
+
+    let text = '';
+    await this.getStreamliner().streamChat(
+      this.buildRequest(model, params, maxTokens),
+      (token) => {
+        text += token;
+      }
+    );
+
+    const stopSequence = params.stopSequences?.find(sequence => text.endsWith(sequence));
+    return {
+      model,
+      role: 'assistant',
+      content: { type: 'text', text },
+      stopReason: stopSequence ? 'stopSequence' : 'endTurn'
+    };
+  }
+
+  private buildRequest(model: string, params: SamplingParams, maxTokens: number): ProcessedRequest {
+    const messages: ProcessedRequest['messages'] = [];
+    if (params.systemPrompt) {
+      messages.push({ role: 'system', content: params.systemPrompt });
+    }
+
+    for (const message of params.messages) {
+      const { content } = message;
+      if (content.type === 'image') {
+        messages.push({ role: message.role, content: '', images: [String(content.data)] });
+      } else {
+        messages.push({ role: message.role, content: String(content.text) });
+      }
+    }
+
+    const options: Record<string, unknown> = { num_predict: maxTokens };
+    if (params.temperature !== undefined) {
+      options.temperature = params.temperature;
+    }
+    if (params.stopSequences?.length) {
+      options.stop = params.stopSequences;
+    }
+
+    return { model, messages, stream: true, options };
+  }
+
+  /**
+   * Configured model first, then MCP_SAMPLING_MODEL, then the first model hint installed locally
+   */
+  private async resolveModel(params: SamplingParams): Promise<string> {
+    const configured = this.config.model || process.env.MCP_SAMPLING_MODEL;
+    if (configured) {
+      return configured;
+    }
+
+    const hints = (params.modelPreferences?.hints || [])
+      .map(hint => hint.name)
+      .filter((name): name is string => typeof name === 'string' && name.length > 0);
+    if (hints.length > 0) {
+      const available = await this.getStreamliner().listModels();
+      for (const hint of hints) {
+        const match = available.find(name => name === hint || name.startsWith(`${hint}:`) || name.includes(hint));
+        if (match) {
+          return match;
+        }
+      }
+    }
+
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      'No sampling model configured - set sampling.model in the MCP config or MCP_SAMPLING_MODEL'
+    );
+  }
+
+  private getStreamliner(): OllamaStreamliner {
+    if (!this.streamliner) {
+      this.streamliner = new OllamaStreamliner();
+    }
+    return this.streamliner;
+  }
+
+  private preview(text: string): string {
+    return text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}...` : text;
+  }
+}
@@ -51,6 +51,8 @@ interface OllamaStreamResponse {
   };
   done?: boolean;
   done_reason?: string;
+  prompt_eval_count?: number; // Prompt tokens Ollama evaluated, sent with the final chunk
+  eval_count?: number;
   // Additional fields for error handling
   error?: string;
 }
@@ -911,21 +913,30 @@ export class OllamaStreamliner {
 
     // Get conversation history if conversationId is provided
     let messages: Array<{ role: string; content: string; images?: string[] }> = [];
+    // The window the request runs with, sent as num_ctx so Ollama does not truncate to its default
+    const contextWindow = request.num_ctx || capabilities.contextWindow;
     
     if (request.conversationId) {
       try {
-        // Calculate token budget for history based on model capabilities
-        const contextWindow = capabilities.contextWindow;
-        const maxHistoryTokens = Math.floor(contextWindow * 0.5); // Use 50% of context for history
+        // History gets what the window leaves after the new message and the reply reserve
+        const historyBudget = this.memoryService.getHistoryBudget({
+          model: request.model,
+          contextWindow,
+          messages: [{ content: request.content }],
+        });
         
         const adjustedMemoryConfig: MemoryConfig = {
           ...memoryConfig,
-          maxTokens: Math.min(memoryConfig?.maxTokens || 4000, maxHistoryTokens),
+          ...(request.systemPrompt ? { systemPrompt: request.systemPrompt } : {}),
+          maxTokens: Math.min(memoryConfig?.maxTokens ?? historyBudget, historyBudget),
+          model: request.model,
+          summarizer: prompt => this.summarize(request.model, prompt),
         };
         
         messages = await this.memoryService.getConversationHistory(
           request.conversationId,
-          adjustedMemoryConfig
+          adjustedMemoryConfig,
+          request.parentMessageId
         );
         logger.debug(`Loaded ${messages.length} messages from conversation history`);
       } catch (error) {
@@ -934,6 +945,27 @@ export class OllamaStreamliner {
       }
     }
 
+    const processed = await this.formatRequest(request, messages, capabilities, availableTools);
+    // Sampling options the request sets, e.g. from the conversation's persona
+    const sampling = { temperature: request.temperature, top_p: request.top_p, seed: request.seed };
+    processed.options = {
+      ...processed.options,
+      ...Object.fromEntries(Object.entries(sampling).filter(([, value]) => value !== undefined)),
+      num_ctx: contextWindow,
+    };
+    processed.conversationId = request.conversationId;
+    return processed;
+  }
+
+  /**
+   * Build the Ollama request for the kind of input: hybrid vision, vision or text
+   */
+  private async formatRequest(
+    request: ChatRequest,
+    messages: Array<{ role: string; content: string; images?: string[] }>,
+    capabilities: ModelCapability,
+    availableTools: unknown[]
+  ): Promise<ProcessedRequest> {
     // Vision handling
     if (request.images && request.images.length > 0) {
       logger.info(`Processing request with ${request.images.length} images`);
@@ -962,6 +994,45 @@ export class OllamaStreamliner {
     return this.formatTextRequest(request, messages, availableTools);
   }
 
+  /**
+   * Run a conversation summarization prompt to completion
+   */
+  private async summarize(model: string, prompt: string): Promise<string> {
+    const ollamaHost = this.getOllamaHost();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minute timeout
+
+    try {
+      const response = await fetch(`${ollamaHost}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          stream: false,
+          options: { temperature: 0.2 },
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        this.loadBalancer?.reportFailure(ollamaHost);
+        throw new Error(`Summarization request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const result = await response.json() as OllamaChatResponse;
+      this.loadBalancer?.reportSuccess(ollamaHost);
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      // Reasoning models may think out loud before answering
+      return (result.message?.content || '').replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
   private async formatHybridVisionRequest(
     request: ChatRequest,
     history: Array<{ role: string; content: string; images?: string[] }>, availableTools?: any[]
@@ -1080,7 +1151,8 @@ export class OllamaStreamliner {
     processedRequest: ProcessedRequest,
     onToken: (token: string) => void,
     onComplete?: (result: StreamResult) => void,
-    clientIp?: string
+    clientIp?: string,
+    signal?: AbortSignal // stops the generation; resolves with the tokens streamed so far
   ): Promise<void> {
     const ollamaHost = this.getOllamaHost(clientIp);
     
@@ -1098,6 +1170,11 @@ export class OllamaStreamliner {
       logger.warn(`Stream timeout reached for model ${processedRequest.model}, aborting...`);
       controller.abort();
     }, 120000); // 2 minutes timeout for streaming
+    const onCancel = () => controller.abort();
+    signal?.addEventListener('abort', onCancel, { once: true });
+    if (signal?.aborted) {
+      controller.abort();
+    }
     
     // Buffer to accumulate full response content
     let fullResponseContent = '';
@@ -1200,6 +1277,15 @@ export class OllamaStreamliner {
                 if (json.done_reason) {
                   logger.debug(`Stream done reason: ${json.done_reason}`);
                 }
+                this.memoryService.recordPromptUsage({
+                  model: processedRequest.model,
+                  messages: processedRequest.messages,
+                  tools: processedRequest.tools,
+                  promptTokens: json.prompt_eval_count,
+                  completionTokens: json.eval_count,
+                  contextWindow: processedRequest.options?.num_ctx as number | undefined,
+                  conversationId: processedRequest.conversationId,
+                });
               }
             } catch (parseError) {
               // If JSON parsing fails, it might be an incomplete object
@@ -1297,9 +1383,16 @@ export class OllamaStreamliner {
       } finally {
         reader.releaseLock();
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onCancel);
       }
     } catch (error) {
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onCancel);
+      
+      if (signal?.aborted) {
+        logger.info(`🛑 Stream cancelled for model ${processedRequest.model} after ${fullResponseContent.length} chars`);
+        return;
+      }
       
       if (this.loadBalancer) {
         this.loadBalancer.reportFailure(ollamaHost);
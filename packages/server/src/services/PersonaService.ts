@@ -0,0 +1,186 @@
+import { Collection, ObjectId } from 'mongodb';
+import { ChatRequest, Conversation, Persona, PersonaExport, PersonaExportEntry, PersonaInput, PersonaSampling } from '@olympian/shared';
+import { DatabaseService } from './DatabaseService';
+import { ToolSelectionService } from './ToolSelectionService';
+import { logger } from '../utils/logger';
+
+type PersonaDocument = Omit<Persona, '_id'> & { _id?: ObjectId };
+
+export type PersonaImportConflict = 'rename' | 'replace' | 'skip';
+
+export const MAX_SYSTEM_PROMPT_LENGTH = 20000;
+
+/**
+ * Library of personas: a system prompt with the default model, sampling
+ * options and tool set to use with it. Personas are cached in memory, ordered
+ * by name.
+ */
+export class PersonaService {
+  private static instance: PersonaService;
+  private personas: Persona[] = [];
+
+  private constructor() {}
+
+  static getInstance(): PersonaService {
+    if (!PersonaService.instance) {
+      PersonaService.instance = new PersonaService();
+    }
+    return PersonaService.instance;
+  }
+
+  /**
+   * Load persisted personas into memory
+   */
+  async initialize(): Promise<void> {
+    try {
+      const collection = this.getCollection();
+      await collection.createIndex({ name: 1 }, { unique: true });
+      const documents = await collection.find().toArray();
+      this.personas = documents.map(doc => this.formatPersona(doc));
+      this.sort();
+      logger.info(`🎭 Loaded ${this.personas.length} personas`);
+    } catch (error) {
+      logger.error('❌ Failed to load personas:', error);
+    }
+  }
+
+  list(): Persona[] {
+    return [...this.personas];
+  }
+
+  get(id: string): Persona | undefined {
+    return this.personas.find(persona => persona._id === id);
+  }
+
+  findByName(name: string): Persona | undefined {
+    return this.personas.find(persona => persona.name === name);
+  }
+
+  async create(input: PersonaInput): Promise<Persona> {
+    const now = new Date();
+    const document: PersonaDocument = { ...input, createdAt: now, updatedAt: now };
+    const result = await this.getCollection().insertOne(document);
+
+    const persona = this.formatPersona({ ...document, _id: result.insertedId });
+    this.personas.push(persona);
+    this.sort();
+    logger.info(`🎭 Created persona ${persona.name}`);
+    return persona;
+  }
+
+  async update(id: string, updates: Partial<PersonaInput>): Promise<Persona | null> {
+    const existing = this.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const persona: Persona = { ...existing, ...updates, updatedAt: new Date() };
+    const { _id, ...fields } = persona;
+    await this.getCollection().replaceOne({ _id: new ObjectId(_id) }, fields);
+
+    this.personas = this.personas.map(candidate => (candidate._id === id ? persona : candidate));
+    this.sort();
+    return persona;
+  }
+
+  /**
+   * Delete a persona. Conversations using it keep their own system prompt, if any.
+   */
+  async remove(id: string): Promise<boolean> {
+    if (!this.get(id)) {
+      return false;
+    }
+
+    await this.getCollection().deleteOne({ _id: new ObjectId(id) });
+    await DatabaseService.getInstance().conversations.updateMany(
+      { personaId: id },
+      { $unset: { personaId: '' } }
+    );
+    this.personas = this.personas.filter(persona => persona._id !== id);
+    return true;
+  }
+
+  /**
+   * What a conversation's requests run with: its own system prompt, else its
+   * persona's, and the persona's sampling options
+   */
+  getRequestSettings(conversation: Pick<Conversation, 'personaId' | 'systemPrompt'>): Pick<ChatRequest, 'systemPrompt' | keyof PersonaSampling> {
+    const persona = conversation.personaId ? this.get(conversation.personaId) : undefined;
+    return {
+      ...persona?.sampling,
+      systemPrompt: conversation.systemPrompt || persona?.systemPrompt,
+    };
+  }
+
+  /**
+   * Personas as a portable JSON document, all of them unless ids are given
+   */
+  export(ids?: string[]): PersonaExport {
+    const toolSets = ToolSelectionService.getInstance();
+    const personas = ids ? this.personas.filter(persona => ids.includes(persona._id!)) : this.personas;
+
+    return {
+      version: 1,
+      exportedAt: new Date(),
+      personas: personas.map(({ _id, toolSetId, createdAt: _createdAt, updatedAt: _updatedAt, ...fields }) => ({
+        ...fields,
+        toolSet: toolSetId ? toolSets.getToolSet(toolSetId)?.name : undefined,
+      })),
+    };
+  }
+
+  /**
+   * Add exported personas. Tool sets are matched by name and dropped when
+   * missing. A persona whose name is taken is renamed, replaces the existing
+   * one or is skipped, depending on `onConflict`.
+   */
+  async import(
+    entries: PersonaExportEntry[],
+    onConflict: PersonaImportConflict
+  ): Promise<{ imported: Persona[]; skipped: string[] }> {
+    const toolSets = ToolSelectionService.getInstance().listToolSets();
+    const imported: Persona[] = [];
+    const skipped: string[] = [];
+
+    for (const { toolSet, ...fields } of entries) {
+      const input: PersonaInput = {
+        ...fields,
+        toolSetId: toolSet ? toolSets.find(set => set.name === toolSet)?._id : undefined,
+      };
+      const existing = this.findByName(input.name);
+
+      if (!existing) {
+        imported.push(await this.create(input));
+      } else if (onConflict === 'replace') {
+        imported.push((await this.update(existing._id!, input))!);
+      } else if (onConflict === 'rename') {
+        imported.push(await this.create({ ...input, name: this.uniqueName(input.name) }));
+      } else {
+        skipped.push(input.name);
+      }
+    }
+
+    logger.info(`🎭 Imported ${imported.length} personas${skipped.length ? `, skipped ${skipped.length}` : ''}`);
+    return { imported, skipped };
+  }
+
+  private uniqueName(name: string): string {
+    let candidate = name;
+    for (let copy = 2; this.findByName(candidate); copy++) {
+      candidate = `${name} (${copy})`;
+    }
+    return candidate;
+  }
+
+  private sort(): void {
+    this.personas.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private formatPersona(doc: PersonaDocument): Persona {
+    return { ...doc, _id: doc._id?.toString() };
+  }
+
+  private getCollection(): Collection<PersonaDocument> {
+    return DatabaseService.getInstance().getDatabase().collection<PersonaDocument>('personas');
+  }
+}
@@ -1,5 +1,6 @@
 import { MCPTool } from '@olympian/shared';
 import { logger } from '../utils/logger';
+import { OllamaToolDefinition, ToolOverrideService } from './ToolOverrideService';
 
 /**
  * Manages tool namespacing to prevent conflicts between MCP servers
@@ -65,20 +66,21 @@ export class ToolNamespaceManager {
   }
   
   /**
-   * Get all tools in Ollama format
+   * Get all tools in Ollama format, with user overrides applied
    */
-  getToolsForOllama(): any[] {
-    const tools = [];
+  getToolsForOllama(): OllamaToolDefinition[] {
+    const overrides = ToolOverrideService.getInstance();
+    const tools: OllamaToolDefinition[] = [];
     
     for (const [qualifiedName, info] of this.toolRegistry) {
-      tools.push({
+      tools.push(overrides.apply({
         type: 'function',
         function: {
           name: qualifiedName,
           description: info.tool.description,
           parameters: info.tool.inputSchema || {}
         }
-      });
+      }));
     }
     
     return tools;
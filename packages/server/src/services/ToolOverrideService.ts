@@ -0,0 +1,178 @@
+import { Collection } from 'mongodb';
+import { ToolOverride } from '@olympian/shared';
+import { DatabaseService } from './DatabaseService';
+import { logger } from '../utils/logger';
+
+interface ToolOverrideDocument extends ToolOverride {
+  toolName: string; // qualified name: serverId.toolName
+  updatedAt: Date;
+}
+
+/**
+ * Tool definition in the shape sent to Ollama
+ */
+export interface OllamaToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+/**
+ * User-edited tool descriptions, parameter descriptions and examples, keyed by
+ * qualified tool name. Overrides are cached in memory so they can be applied
+ * synchronously whenever tools are formatted for Ollama.
+ */
+export class ToolOverrideService {
+  private static instance: ToolOverrideService;
+  private overrides: Map<string, ToolOverride> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): ToolOverrideService {
+    if (!ToolOverrideService.instance) {
+      ToolOverrideService.instance = new ToolOverrideService();
+    }
+    return ToolOverrideService.instance;
+  }
+
+  /**
+   * Load persisted overrides into memory
+   */
+  async initialize(): Promise<void> {
+    try {
+      const collection = this.getCollection();
+      await collection.createIndex({ toolName: 1 }, { unique: true });
+      const documents = await collection.find().toArray();
+
+      this.overrides = new Map(documents.map(({ toolName, description, parameterDescriptions, examples }) => [
+        toolName,
+        { description, parameterDescriptions, examples }
+      ]));
+      logger.info(`📝 Loaded ${this.overrides.size} tool overrides`);
+    } catch (error) {
+      logger.error('❌ Failed to load tool overrides:', error);
+    }
+  }
+
+  getAll(): Record<string, ToolOverride> {
+    return Object.fromEntries(this.overrides);
+  }
+
+  get(toolName: string): ToolOverride | undefined {
+    return this.overrides.get(toolName);
+  }
+
+  async set(toolName: string, override: ToolOverride): Promise<void> {
+    const normalized = this.normalize(override);
+    const cleared = this.missingFields(normalized);
+    await this.getCollection().updateOne(
+      { toolName },
+      {
+        $set: { ...normalized, updatedAt: new Date() },
+        ...(cleared.length > 0 ? { $unset: Object.fromEntries(cleared.map(field => [field, ''])) } : {})
+      },
+      { upsert: true }
+    );
+    this.overrides.set(toolName, normalized);
+  }
+
+  async remove(toolName: string): Promise<boolean> {
+    const result = await this.getCollection().deleteOne({ toolName });
+    this.overrides.delete(toolName);
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Replace every override, as saved from the tool description editor
+   */
+  async replaceAll(overrides: Record<string, ToolOverride>): Promise<void> {
+    const collection = this.getCollection();
+    const toolNames = Object.keys(overrides);
+
+    await collection.deleteMany({ toolName: { $nin: toolNames } });
+    for (const toolName of this.overrides.keys()) {
+      if (!(toolName in overrides)) {
+        this.overrides.delete(toolName);
+      }
+    }
+
+    for (const toolName of toolNames) {
+      await this.set(toolName, overrides[toolName]);
+    }
+  }
+
+  /**
+   * Apply the override for a tool, if any, without mutating the input
+   */
+  apply(tool: OllamaToolDefinition): OllamaToolDefinition {
+    const override = this.overrides.get(tool.function.name);
+    if (!override) {
+      return tool;
+    }
+
+    let description = override.description || tool.function.description || '';
+    if (override.examples?.length) {
+      description += `\n\nExamples:\n${override.examples.map(example => `- ${example}`).join('\n')}`;
+    }
+
+    return {
+      ...tool,
+      function: {
+        ...tool.function,
+        description,
+        parameters: this.applyParameterDescriptions(tool.function.parameters, override.parameterDescriptions)
+      }
+    };
+  }
+
+  private applyParameterDescriptions(
+    parameters: Record<string, unknown>,
+    descriptions?: Record<string, string>
+  ): Record<string, unknown> {
+    const properties = parameters.properties as Record<string, Record<string, unknown>> | undefined;
+    if (!descriptions || !properties) {
+      return parameters;
+    }
+
+    const updated: Record<string, Record<string, unknown>> = { ...properties };
+    for (const [name, description] of Object.entries(descriptions)) {
+      if (updated[name] && description) {
+        updated[name] = { ...updated[name], description };
+      }
+    }
+    return { ...parameters, properties: updated };
+  }
+
+  // Drop empty fields so a cleared description falls back to the server's own
+  private normalize(override: ToolOverride): ToolOverride {
+    const normalized: ToolOverride = {};
+    if (override.description?.trim()) {
+      normalized.description = override.description.trim();
+    }
+
+    const parameterDescriptions = Object.fromEntries(
+      Object.entries(override.parameterDescriptions || {}).filter(([, value]) => value.trim())
+    );
+    if (Object.keys(parameterDescriptions).length > 0) {
+      normalized.parameterDescriptions = parameterDescriptions;
+    }
+
+    const examples = (override.examples || []).map(example => example.trim()).filter(Boolean);
+    if (examples.length > 0) {
+      normalized.examples = examples;
+    }
+    return normalized;
+  }
+
+  private missingFields(override: ToolOverride): Array<keyof ToolOverride> {
+    const fields: Array<keyof ToolOverride> = ['description', 'parameterDescriptions', 'examples'];
+    return fields.filter(field => override[field] === undefined);
+  }
+
+  private getCollection(): Collection<ToolOverrideDocument> {
+    return DatabaseService.getInstance().getDatabase().collection<ToolOverrideDocument>('tool_overrides');
+  }
+}
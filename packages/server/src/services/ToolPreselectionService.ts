@@ -0,0 +1,222 @@
+import { MCPTool, MCPToolSelectionRequest, MCPToolSelectionResponse } from '@olympian/shared';
+import { getDeploymentConfig } from '../config/deployment';
+import { logger } from '../utils/logger';
+
+const DEFAULT_TOP_N = 8;
+const DEFAULT_EMBEDDING_WEIGHT = 0.5;
+const EMBEDDING_TIMEOUT_MS = 10000;
+const MAX_CACHED_EMBEDDINGS = 1000;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'how', 'i', 'in', 'is',
+  'it', 'me', 'my', 'of', 'on', 'or', 'please', 'the', 'this', 'to', 'what', 'with', 'you'
+]);
+
+interface ScoredTool {
+  tool: MCPTool;
+  score: number;
+}
+
+/**
+ * Split identifiers and prose into lowercase terms: "search_repositories",
+ * "getFileContents" and "github.list" all break into their words
+ */
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Ranks tools against the user's message so small-context models are only
+ * offered the most relevant ones. Scoring is BM25 over tool names, descriptions
+ * and parameters, blended with Ollama embeddings when an embedding model is set.
+ *
+ * Configured with TOOL_SELECTION_TOP_N (0 disables preselection),
+ * TOOL_SELECTION_EMBEDDING_MODEL and TOOL_SELECTION_EMBEDDING_WEIGHT.
+ */
+export class ToolPreselectionService {
+  private static instance: ToolPreselectionService;
+  private embeddingCache: Map<string, number[]> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): ToolPreselectionService {
+    if (!ToolPreselectionService.instance) {
+      ToolPreselectionService.instance = new ToolPreselectionService();
+    }
+    return ToolPreselectionService.instance;
+  }
+
+  getTopN(): number {
+    const parsed = parseInt(process.env.TOOL_SELECTION_TOP_N || '', 10);
+    return Number.isNaN(parsed) ? DEFAULT_TOP_N : Math.max(0, parsed);
+  }
+
+  /**
+   * Select up to `limit` tools for the query. Returns null when there are no tools.
+   */
+  async select(request: MCPToolSelectionRequest, limit = this.getTopN()): Promise<MCPToolSelectionResponse | null> {
+    const { query, availableTools } = request;
+    if (availableTools.length === 0) {
+      return null;
+    }
+
+    if (limit <= 0 || availableTools.length <= limit) {
+      return this.toResponse(availableTools.map(tool => ({ tool, score: 1 })), 'all', availableTools.length);
+    }
+
+    let ranked = this.scoreBM25(query, availableTools);
+    let method: 'bm25' | 'hybrid' = 'bm25';
+
+    const embeddingModel = process.env.TOOL_SELECTION_EMBEDDING_MODEL;
+    if (embeddingModel) {
+      try {
+        ranked = await this.blendEmbeddings(query, ranked, embeddingModel);
+        method = 'hybrid';
+      } catch (error) {
+        logger.warn(`⚠️ Embedding tool selection failed, using keyword ranking only: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // Stable sort keeps the enabled-tools order for ties (e.g. a query with no matching terms)
+    const selected = ranked
+      .map((entry, index) => ({ ...entry, index }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit);
+
+    logger.debug(`🎯 Preselected ${selected.length}/${availableTools.length} tools (${method}): ${selected.map(s => s.tool.name).join(', ')}`);
+    return this.toResponse(selected, method, availableTools.length);
+  }
+
+  /**
+   * BM25 scores normalized to 0-1 against the best match
+   */
+  private scoreBM25(query: string, tools: MCPTool[]): ScoredTool[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const documents = tools.map(tool => tokenize(this.describe(tool)));
+    const averageLength = documents.reduce((total, terms) => total + terms.length, 0) / documents.length || 1;
+
+    const documentFrequency = new Map<string, number>();
+    for (const terms of documents) {
+      for (const term of new Set(terms)) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+
+    const raw = documents.map(terms => {
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = frequencies.get(term);
+        if (!tf) continue;
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * terms.length / averageLength));
+      }
+      return score;
+    });
+
+    const best = Math.max(...raw);
+    return tools.map((tool, index) => ({ tool, score: best > 0 ? raw[index] / best : 0 }));
+  }
+
+  private async blendEmbeddings(query: string, ranked: ScoredTool[], model: string): Promise<ScoredTool[]> {
+    const weight = this.getEmbeddingWeight();
+    const texts = ranked.map(({ tool }) => this.describe(tool));
+    const missing = texts.filter(text => !this.embeddingCache.has(`${model}:${text}`));
+
+    const [queryEmbedding, ...toolEmbeddings] = await this.embed(model, [query, ...missing]);
+    missing.forEach((text, index) => this.cacheEmbedding(`${model}:${text}`, toolEmbeddings[index]));
+
+    return ranked.map(({ tool, score }, index) => {
+      const embedding = this.embeddingCache.get(`${model}:${texts[index]}`);
+      // Cosine similarity of text embeddings is effectively 0-1
+      const similarity = embedding ? Math.max(0, cosineSimilarity(queryEmbedding, embedding)) : 0;
+      return { tool, score: (1 - weight) * score + weight * similarity };
+    });
+  }
+
+  private async embed(model: string, input: string[]): Promise<number[][]> {
+    const response = await fetch(`${getDeploymentConfig().ollama.host}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, input }),
+      signal: AbortSignal.timeout(EMBEDDING_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Ollama embed error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { embeddings?: number[][] };
+    if (!data.embeddings || data.embeddings.length !== input.length) {
+      throw new Error('Ollama returned no embeddings');
+    }
+    return data.embeddings;
+  }
+
+  private cacheEmbedding(key: string, embedding: number[]): void {
+    if (this.embeddingCache.size >= MAX_CACHED_EMBEDDINGS) {
+      const oldest = this.embeddingCache.keys().next().value;
+      if (oldest !== undefined) {
+        this.embeddingCache.delete(oldest);
+      }
+    }
+    this.embeddingCache.set(key, embedding);
+  }
+
+  private getEmbeddingWeight(): number {
+    const parsed = parseFloat(process.env.TOOL_SELECTION_EMBEDDING_WEIGHT || '');
+    return Number.isNaN(parsed) ? DEFAULT_EMBEDDING_WEIGHT : Math.min(1, Math.max(0, parsed));
+  }
+
+  // Text a tool is matched on: its name, description and parameters
+  private describe(tool: MCPTool): string {
+    const properties: Record<string, { description?: string }> = tool.inputSchema?.properties || {};
+    const parameters = Object.entries(properties)
+      .map(([name, schema]) => `${name} ${schema?.description || ''}`)
+      .join(' ');
+    return `${tool.name} ${tool.description || ''} ${parameters}`;
+  }
+
+  private toResponse(
+    selected: ScoredTool[],
+    method: 'all' | 'bm25' | 'hybrid',
+    totalTools: number
+  ): MCPToolSelectionResponse {
+    const [best, ...alternatives] = selected;
+    return {
+      selectedTool: best.tool,
+      confidence: best.score,
+      reasoning: method === 'all'
+        ? `All ${totalTools} tools offered`
+        : `Top ${selected.length} of ${totalTools} tools by ${method === 'hybrid' ? 'keyword and embedding' : 'keyword'} relevance`,
+      alternativeTools: alternatives.map(entry => entry.tool),
+      method,
+      scores: Object.fromEntries(selected.map(entry => [entry.tool.name, Math.round(entry.score * 1000) / 1000])),
+      totalTools
+    };
+  }
+}
@@ -0,0 +1,190 @@
+import { MCPConfig, MCPResultCacheStats } from '@olympian/shared';
+import { logger } from '../utils/logger';
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const MAX_ENTRIES = 500;
+
+interface CacheEntry {
+  serverId: string;
+  toolName: string;
+  result: unknown;
+  expiresAt: number;
+}
+
+type CacheSettings = Pick<MCPConfig, 'enableCaching' | 'cacheExpiration' | 'cacheableTools'>;
+
+/**
+ * Stable JSON serialization with sorted object keys, so argument order
+ * does not produce distinct cache keys
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Opt-in cache for results of idempotent MCP tools.
+ * Only tools matching the cacheableTools allowlist ("serverId.toolName",
+ * "*" wildcards allowed) are cached; everything else always hits the server.
+ */
+export class ToolResultCache {
+  private static instance: ToolResultCache;
+  private entries: Map<string, CacheEntry> = new Map();
+  private enabled = false;
+  private ttl = DEFAULT_TTL_MS;
+  private allowlist: string[] = [];
+  private allowlistPatterns: RegExp[] = [];
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private lastCacheUpdate?: Date;
+
+  private constructor() {}
+
+  static getInstance(): ToolResultCache {
+    if (!ToolResultCache.instance) {
+      ToolResultCache.instance = new ToolResultCache();
+    }
+    return ToolResultCache.instance;
+  }
+
+  /**
+   * Apply cache settings from the MCP config; existing entries are dropped when settings change
+   */
+  configure(settings: CacheSettings): void {
+    const enabled = settings.enableCaching === true;
+    const ttl = settings.cacheExpiration && settings.cacheExpiration > 0 ? settings.cacheExpiration : DEFAULT_TTL_MS;
+    const allowlist = settings.cacheableTools || [];
+
+    const changed = enabled !== this.enabled ||
+      ttl !== this.ttl ||
+      allowlist.join('\n') !== this.allowlist.join('\n');
+    if (!changed) return;
+
+    this.enabled = enabled;
+    this.ttl = ttl;
+    this.allowlist = allowlist;
+    this.allowlistPatterns = allowlist.map(patternToRegExp);
+    this.entries.clear();
+
+    logger.info(`[MCP] Tool result cache ${enabled ? `enabled for ${allowlist.length} pattern(s), TTL ${ttl}ms` : 'disabled'}`);
+  }
+
+  /**
+   * Whether results of this tool may be cached
+   */
+  isCacheable(serverId: string, toolName: string): boolean {
+    return this.enabled && this.isIdempotent(serverId, toolName);
+  }
+
+  /**
+   * Whether the tool is on the cacheableTools allowlist, i.e. declared free of
+   * side effects. Holds even while caching is disabled.
+   */
+  isIdempotent(serverId: string, toolName: string): boolean {
+    const qualifiedName = `${serverId}.${toolName}`;
+    return this.allowlistPatterns.some(pattern => pattern.test(qualifiedName));
+  }
+
+  get(serverId: string, toolName: string, args: unknown): { hit: boolean; result?: unknown } {
+    const key = this.key(serverId, toolName, args);
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+        this.evictions++;
+      }
+      this.misses++;
+      return { hit: false };
+    }
+
+    // Refresh insertion order so the oldest-used entry is evicted first
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return { hit: true, result: entry.result };
+  }
+
+  set(serverId: string, toolName: string, args: unknown, result: unknown): void {
+    const key = this.key(serverId, toolName, args);
+    this.entries.delete(key);
+    this.entries.set(key, {
+      serverId,
+      toolName,
+      result,
+      expiresAt: Date.now() + this.ttl
+    });
+    this.lastCacheUpdate = new Date();
+
+    while (this.entries.size > MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Drop all entries for a server, e.g. when it is restarted or removed
+   */
+  invalidateServer(serverId: string): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.serverId === serverId) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): MCPResultCacheStats {
+    const now = Date.now();
+    const lookups = this.hits + this.misses;
+    const perTool: Record<string, number> = {};
+    let expiredEntries = 0;
+
+    for (const entry of this.entries.values()) {
+      if (entry.expiresAt <= now) {
+        expiredEntries++;
+        continue;
+      }
+      const name = `${entry.serverId}.${entry.toolName}`;
+      perTool[name] = (perTool[name] || 0) + 1;
+    }
+
+    return {
+      enabled: this.enabled,
+      ttl: this.ttl,
+      cacheableTools: this.allowlist,
+      entries: this.entries.size - expiredEntries,
+      expiredEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? this.hits / lookups : undefined,
+      missRate: lookups > 0 ? this.misses / lookups : undefined,
+      entriesByTool: perTool,
+      lastCacheUpdate: this.lastCacheUpdate
+    };
+  }
+
+  private key(serverId: string, toolName: string, args: unknown): string {
+    return `${serverId}\u0000${toolName}\u0000${canonicalize(args ?? {})}`;
+  }
+}
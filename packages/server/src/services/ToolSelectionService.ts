@@ -1,7 +1,14 @@
-import { MCPTool } from '@olympian/shared';
+import { Collection, ObjectId } from 'mongodb';
+import { MCPTool, ToolSet } from '@olympian/shared';
+import { DatabaseService } from './DatabaseService';
 import { ToolNamespaceManager } from './ToolNamespaceManager';
 import { logger } from '../utils/logger';
 
+const ACTIVE_TOOL_SET_KEY = 'activeToolSetId';
+const DEFAULT_TOOL_SET_NAME = 'default';
+
+type ToolSetDocument = Omit<ToolSet, '_id'> & { _id?: ObjectId };
+
 interface ToolSelectionState {
   enabledTools: Set<string>;
   availableTools: Map<string, MCPTool>;
@@ -11,11 +18,16 @@ interface ToolSelectionState {
 /**
  * Tool Selection Service based on MCP Client for Ollama patterns
  * Manages tool enabling/disabling with server grouping
+ *
+ * Selections are stored as named tool sets in MongoDB. The enabled tools are
+ * those of the active set, and every change to them is saved back to it.
  */
 export class ToolSelectionService {
   private static instance: ToolSelectionService;
   private state: ToolSelectionState;
   private namespaceManager: ToolNamespaceManager;
+  private toolSets: Map<string, ToolSet> = new Map();
+  private activeToolSetId: string | null = null;
   
   private constructor() {
     this.namespaceManager = ToolNamespaceManager.getInstance();
@@ -63,17 +75,65 @@ export class ToolSelectionService {
     logger.info(`Tool selection initialized: \${tools.length} tools from \${this.state.serverGroups.size} servers`);
   }
   
+  /**
+   * Refresh available tools after servers change, keeping the enabled state
+   * of tools that still exist. Newly discovered tools are enabled by default.
+   */
+  syncAvailableTools(tools: MCPTool[]): void {
+    const previous = new Set(this.state.availableTools.keys());
+    
+    this.state.availableTools.clear();
+    this.state.serverGroups.clear();
+    
+    for (const tool of tools) {
+      this.state.availableTools.set(tool.name, tool);
+      
+      const parts = tool.name.split('.');
+      if (parts.length >= 2) {
+        const serverId = parts[0];
+        
+        if (!this.state.serverGroups.has(serverId)) {
+          this.state.serverGroups.set(serverId, []);
+        }
+        this.state.serverGroups.get(serverId)!.push(tool.name);
+      }
+      
+      // Reconnected servers get their saved selection back; with no saved set yet, new tools are enabled
+      const activeSet = this.getActiveToolSet();
+      if (!previous.has(tool.name) && (!activeSet || activeSet.tools.includes(tool.name))) {
+        this.state.enabledTools.add(tool.name);
+      }
+    }
+    
+    // Drop tools that are no longer available (the active set keeps them for when they return)
+    for (const toolName of Array.from(this.state.enabledTools)) {
+      if (!this.state.availableTools.has(toolName)) {
+        this.state.enabledTools.delete(toolName);
+      }
+    }
+    
+    logger.info(`Tool selection synced: ${tools.length} tools from ${this.state.serverGroups.size} servers`);
+  }
+  
   /**
    * Toggle a specific tool
    */
   toggleTool(toolName: string): boolean {
-    if (this.state.enabledTools.has(toolName)) {
-      this.state.enabledTools.delete(toolName);
-      return false;
-    } else {
+    const enabled = !this.state.enabledTools.has(toolName);
+    this.setToolEnabled(toolName, enabled);
+    return enabled;
+  }
+  
+  /**
+   * Enable or disable a specific tool
+   */
+  setToolEnabled(toolName: string, enabled: boolean): void {
+    if (enabled) {
       this.state.enabledTools.add(toolName);
-      return true;
+    } else {
+      this.state.enabledTools.delete(toolName);
     }
+    this.saveActiveToolSet();
   }
   
   /**
@@ -86,15 +146,23 @@ export class ToolSelectionService {
     // Check if all tools are enabled
     const allEnabled = tools.every(t => this.state.enabledTools.has(t));
     
-    if (allEnabled) {
-      // Disable all
-      tools.forEach(t => this.state.enabledTools.delete(t));
-      return false;
-    } else {
-      // Enable all
-      tools.forEach(t => this.state.enabledTools.add(t));
-      return true;
+    this.setServerEnabled(serverId, !allEnabled);
+    return !allEnabled;
+  }
+  
+  /**
+   * Enable or disable all tools for a server
+   */
+  setServerEnabled(serverId: string, enabled: boolean): void {
+    const tools = this.state.serverGroups.get(serverId) || [];
+    for (const toolName of tools) {
+      if (enabled) {
+        this.state.enabledTools.add(toolName);
+      } else {
+        this.state.enabledTools.delete(toolName);
+      }
     }
+    this.saveActiveToolSet();
   }
   
   /**
@@ -104,6 +172,7 @@ export class ToolSelectionService {
     for (const toolName of this.state.availableTools.keys()) {
       this.state.enabledTools.add(toolName);
     }
+    this.saveActiveToolSet();
   }
   
   /**
@@ -111,15 +180,16 @@ export class ToolSelectionService {
    */
   disableAll(): void {
     this.state.enabledTools.clear();
+    this.saveActiveToolSet();
   }
   
   /**
-   * Get enabled tools
+   * Get enabled tools, from the given tool set or else the active selection
    */
-  getEnabledTools(): MCPTool[] {
+  getEnabledTools(toolSetId?: string): MCPTool[] {
     const tools: MCPTool[] = [];
     
-    for (const toolName of this.state.enabledTools) {
+    for (const toolName of this.getEnabledToolNames(toolSetId)) {
       const tool = this.state.availableTools.get(toolName);
       if (tool) {
         tools.push(tool);
@@ -130,10 +200,15 @@ export class ToolSelectionService {
   }
   
   /**
-   * Check if tool is enabled
+   * Check if tool is enabled, in the given tool set or else the active selection
    */
-  isToolEnabled(toolName: string): boolean {
-    return this.state.enabledTools.has(toolName);
+  isToolEnabled(toolName: string, toolSetId?: string): boolean {
+    return this.getEnabledToolNames(toolSetId).has(toolName);
+  }
+  
+  private getEnabledToolNames(toolSetId?: string): Set<string> {
+    const toolSet = toolSetId && toolSetId !== this.activeToolSetId ? this.toolSets.get(toolSetId) : undefined;
+    return toolSet ? new Set(toolSet.tools) : this.state.enabledTools;
   }
   
   /**
@@ -231,6 +306,11 @@ export class ToolSelectionService {
    * Set enabled tools from a list
    */
   setEnabledTools(toolNames: string[]): void {
+    this.applySelection(toolNames);
+    this.saveActiveToolSet();
+  }
+  
+  private applySelection(toolNames: string[]): void {
     this.state.enabledTools.clear();
     for (const name of toolNames) {
       if (this.state.availableTools.has(name)) {
@@ -239,6 +319,165 @@ export class ToolSelectionService {
     }
   }
   
+  /**
+   * Load tool sets and restore the active one. On first run the current
+   * selection is saved as the default set.
+   */
+  async loadToolSets(): Promise<void> {
+    try {
+      const collection = this.getCollection();
+      await collection.createIndex({ name: 1 }, { unique: true });
+      const documents = await collection.find().sort({ createdAt: 1 }).toArray();
+      this.toolSets = new Map(documents.map(doc => [doc._id.toString(), this.formatToolSet(doc)]));
+      
+      if (this.toolSets.size === 0) {
+        await this.createToolSet({ name: DEFAULT_TOOL_SET_NAME });
+      }
+      
+      const saved = await DatabaseService.getInstance().config.findOne({ key: ACTIVE_TOOL_SET_KEY });
+      const activeId = saved?.value && this.toolSets.has(saved.value)
+        ? saved.value as string
+        : this.toolSets.keys().next().value as string;
+      this.activeToolSetId = activeId;
+      this.applySelection(this.toolSets.get(activeId)!.tools);
+      
+      logger.info(`🧰 Loaded ${this.toolSets.size} tool sets, active: ${this.toolSets.get(activeId)!.name}`);
+    } catch (error) {
+      logger.error('❌ Failed to load tool sets:', error);
+    }
+  }
+  
+  listToolSets(): ToolSet[] {
+    return Array.from(this.toolSets.values());
+  }
+  
+  getToolSet(id: string): ToolSet | undefined {
+    return this.toolSets.get(id);
+  }
+  
+  getActiveToolSetId(): string | null {
+    return this.activeToolSetId;
+  }
+  
+  private getActiveToolSet(): ToolSet | undefined {
+    return this.activeToolSetId ? this.toolSets.get(this.activeToolSetId) : undefined;
+  }
+  
+  /**
+   * Create a tool set, by default from the current selection
+   */
+  async createToolSet(data: { name: string; description?: string; tools?: string[] }): Promise<ToolSet> {
+    const now = new Date();
+    const document: ToolSetDocument = {
+      name: data.name,
+      description: data.description,
+      tools: data.tools ?? this.getSelectionWithUnavailable(),
+      createdAt: now,
+      updatedAt: now
+    };
+    const result = await this.getCollection().insertOne(document);
+    
+    const toolSet = this.formatToolSet({ ...document, _id: result.insertedId });
+    this.toolSets.set(toolSet._id!, toolSet);
+    logger.info(`🧰 Created tool set ${toolSet.name} with ${toolSet.tools.length} tools`);
+    return toolSet;
+  }
+  
+  async updateToolSet(
+    id: string,
+    updates: { name?: string; description?: string; tools?: string[] }
+  ): Promise<ToolSet | null> {
+    const existing = this.toolSets.get(id);
+    if (!existing) {
+      return null;
+    }
+    
+    const toolSet: ToolSet = { ...existing, ...updates, updatedAt: new Date() };
+    await this.getCollection().updateOne(
+      { _id: new ObjectId(id) },
+      { $set: { name: toolSet.name, description: toolSet.description, tools: toolSet.tools, updatedAt: toolSet.updatedAt } }
+    );
+    this.toolSets.set(id, toolSet);
+    
+    if (id === this.activeToolSetId && updates.tools) {
+      this.applySelection(toolSet.tools);
+    }
+    return toolSet;
+  }
+  
+  /**
+   * Delete a tool set. Conversations using it fall back to the active set.
+   */
+  async deleteToolSet(id: string): Promise<boolean> {
+    if (!this.toolSets.has(id) || this.toolSets.size <= 1) {
+      return false;
+    }
+    
+    await this.getCollection().deleteOne({ _id: new ObjectId(id) });
+    await DatabaseService.getInstance().conversations.updateMany(
+      { toolSetId: id },
+      { $unset: { toolSetId: '' } }
+    );
+    this.toolSets.delete(id);
+    
+    if (id === this.activeToolSetId) {
+      await this.activateToolSet(this.toolSets.keys().next().value as string);
+    }
+    return true;
+  }
+  
+  /**
+   * Switch the active selection to a tool set
+   */
+  async activateToolSet(id: string): Promise<boolean> {
+    const toolSet = this.toolSets.get(id);
+    if (!toolSet) {
+      return false;
+    }
+    
+    this.activeToolSetId = id;
+    this.applySelection(toolSet.tools);
+    await DatabaseService.getInstance().config.updateOne(
+      { key: ACTIVE_TOOL_SET_KEY },
+      { $set: { key: ACTIVE_TOOL_SET_KEY, value: id, updatedAt: new Date() } },
+      { upsert: true }
+    );
+    logger.info(`🧰 Activated tool set ${toolSet.name}`);
+    return true;
+  }
+  
+  /**
+   * Write the current selection back to the active tool set
+   */
+  private saveActiveToolSet(): void {
+    const activeSet = this.getActiveToolSet();
+    if (!activeSet) return;
+    
+    activeSet.tools = this.getSelectionWithUnavailable();
+    activeSet.updatedAt = new Date();
+    this.getCollection()
+      .updateOne(
+        { _id: new ObjectId(activeSet._id) },
+        { $set: { tools: activeSet.tools, updatedAt: activeSet.updatedAt } }
+      )
+      .catch(error => logger.error(`❌ Failed to save tool set ${activeSet.name}:`, error));
+  }
+  
+  // Enabled tools plus those the active set holds for servers that are currently offline
+  private getSelectionWithUnavailable(): string[] {
+    const offline = (this.getActiveToolSet()?.tools || [])
+      .filter(name => !this.state.availableTools.has(name));
+    return [...this.state.enabledTools, ...offline];
+  }
+  
+  private formatToolSet(doc: ToolSetDocument): ToolSet {
+    return { ...doc, _id: doc._id?.toString() };
+  }
+  
+  private getCollection(): Collection<ToolSetDocument> {
+    return DatabaseService.getInstance().getDatabase().collection<ToolSetDocument>('tool_sets');
+  }
+  
   /**
    * Get stats
    */
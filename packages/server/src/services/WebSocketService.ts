@@ -1,6 +1,7 @@
 import { Server, Socket } from 'socket.io';
+import { Filter, ObjectId } from 'mongodb';
 import { logger } from '../utils/logger';
-import { ClientEvents, ServerEvents, Message, ScanProgress } from '@olympian/shared';
+import { ClientEvents, ServerEvents, Conversation, Message, ScanProgress } from '@olympian/shared';
 import { DatabaseService } from './DatabaseService';
 import { ConnectionScanner } from './ConnectionScanner';
 import { OllamaStreamliner } from './OllamaStreamliner';
@@ -40,6 +41,17 @@ export class WebSocketService {
     this.io.on('connection', (socket: Socket) => {
       logger.info(`Client connected: ${socket.id}`);
 
+      // Stable per-tab id, so HIL prompts reach the tab that sent the message
+      // and survive reconnects
+      const clientId = socket.handshake.auth?.clientId;
+      if (typeof clientId === 'string' && clientId) {
+        socket.join(`client:${clientId}`);
+      }
+
+      socket.on('conversation:join', (data: ClientEvents['conversation:join']) => {
+        this.handleConversationJoin(socket, data.conversationId);
+      });
+
       // Chat events
       socket.on('chat:message', async (data: ClientEvents['chat:message']) => {
         await this.handleChatMessage(socket, data);
@@ -73,6 +85,7 @@ export class WebSocketService {
 
       // Register MCP handlers (HIL and Tool Selection)
       registerMCPHandlers(socket);
+      HILManager.getInstance().redeliver(socket);
 
       socket.on('disconnect', () => {
         logger.info(`Client disconnected: ${socket.id}`);
@@ -108,6 +121,28 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Emit to every socket in a room. Returns false when the room is empty.
+   */
+  public emitToRoom(room: string, event: string, data: unknown): boolean {
+    if (!this.io || !this.io.sockets.adapter.rooms.get(room)?.size) {
+      return false;
+    }
+    this.io.to(room).emit(event, data);
+    return true;
+  }
+
+  // A socket follows one conversation at a time
+  private handleConversationJoin(socket: Socket, conversationId: string): void {
+    for (const room of socket.rooms) {
+      if (room.startsWith('conversation:') && room !== `conversation:${conversationId}`) {
+        socket.leave(room);
+      }
+    }
+    socket.join(`conversation:${conversationId}`);
+    HILManager.getInstance().redeliver(socket);
+  }
+
   private async handleChatMessage(
     socket: Socket,
     data: ClientEvents['chat:message']
@@ -133,6 +168,9 @@ export class WebSocketService {
       // Get or create conversation
       let conversationId: string;
       if (data.conversationId) {
+        if (!ObjectId.isValid(data.conversationId)) {
+          throw new Error(`Invalid conversation id: ${data.conversationId}`);
+        }
         conversationId = data.conversationId;
         logger.debug(`Using existing conversation: ${conversationId}`);
       } else {
@@ -151,13 +189,15 @@ export class WebSocketService {
       }
 
       // Save user message BEFORE processing to ensure it's in history
-      await this.db.messages.insertOne({
+      const userResult = await this.db.messages.insertOne({
         conversationId,
         role: 'user',
         content: data.content,
         images: data.images,
+        parentId: await this.memoryService.getActiveLeafId(conversationId),
         createdAt: new Date(),
       });
+      const userMessageId = userResult.insertedId.toString();
       logger.debug(`Saved user message to database for conversation ${conversationId}`);
 
       // Process the request with conversation history
@@ -184,11 +224,6 @@ export class WebSocketService {
       logger.info(`Starting stream chat for message ${messageId}`);
 
       await this.streamliner.streamChat(processedRequest, (token: string) => {
-        if (abortController.signal.aborted) {
-          logger.warn(`Chat cancelled for message ${messageId}`);
-          throw new Error('Chat cancelled');
-        }
-        
         assistantContent += token;
         tokenCount++;
         
@@ -203,9 +238,10 @@ export class WebSocketService {
         if (tokenCount % 10 === 0) {
           logger.debug(`Emitted token ${tokenCount} for message ${messageId}`);
         }
-      });
+      }, undefined, undefined, abortController.signal);
 
       const totalTime = Date.now() - startTime;
+      const cancelled = abortController.signal.aborted;
       logger.info(`Stream completed for message ${messageId}`, {
         totalTokens: tokenCount,
         totalTime: `${totalTime}ms`,
@@ -214,7 +250,7 @@ export class WebSocketService {
         tokensPerSecond: tokenCount > 0 ? Math.round((tokenCount / totalTime) * 1000) : 0
       });
 
-      // Save assistant message
+      // Save assistant message; a cancelled one keeps the partial text, if any
       const assistantMessage: Message = {
         conversationId,
         role: 'assistant',
@@ -223,18 +259,25 @@ export class WebSocketService {
           model: data.model,
           tokens: tokenCount,
           generationTime: totalTime,
+          cancelled: cancelled || undefined,
         },
+        parentId: userMessageId,
         createdAt: new Date(),
       };
-      await this.db.messages.insertOne(assistantMessage);
-      logger.debug(`Saved assistant message to database (${assistantContent.length} chars)`);
+      const saveAssistant = !cancelled || assistantContent.length > 0;
+      let leafId = userMessageId;
+      if (saveAssistant) {
+        const assistantResult = await this.db.messages.insertOne(assistantMessage);
+        leafId = assistantResult.insertedId.toString();
+        logger.debug(`Saved ${cancelled ? 'partial ' : ''}assistant message to database (${assistantContent.length} chars)`);
+      }
 
       // Update conversation
       await this.db.conversations.updateOne(
-        { _id: conversationId },
+        this.byId<Conversation>(conversationId),
         {
-          $set: { updatedAt: new Date() },
-          $inc: { messageCount: 2 },
+          $set: { updatedAt: new Date(), activeLeafId: leafId },
+          $inc: { messageCount: saveAssistant ? 2 : 1 },
         }
       );
 
@@ -251,7 +294,7 @@ export class WebSocketService {
         conversationId,
         metadata: assistantMessage.metadata!,
       });
-      logger.info(`Chat completed successfully for message ${messageId}`);
+      logger.info(cancelled ? `Chat cancelled for message ${messageId}` : `Chat completed successfully for message ${messageId}`);
 
     } catch (error) {
       logger.error(`Chat error for message ${messageId}:`, {
@@ -272,6 +315,11 @@ export class WebSocketService {
     }
   }
 
+  // Conversations are stored with ObjectId ids
+  private byId<T>(id: string): Filter<T> {
+    return { _id: new ObjectId(id) } as Filter<T>;
+  }
+
   private handleChatCancel(messageId: string): void {
     const controller = this.activeChats.get(messageId);
     if (controller) {
@@ -1,5 +1,6 @@
 import { promises as fs } from 'fs';
-import { dirname } from 'path';
+import { dirname, join } from 'path';
+import { MCPConfigEndpoint, MCPDiscoveryConfig, MCPServer } from '@olympian/shared';
 
 /**
  * Ensure the config directory exists
@@ -12,3 +13,127 @@ export async function ensureConfigDir(configPath: string = './mcp-config.json'):
     await fs.mkdir(dir, { recursive: true });
   }
 }
+
+/**
+ * Path of the active MCP config written by /api/config/save and /api/config/load-template
+ */
+export function getActiveMCPConfigPath(): string {
+  return join(process.cwd(), 'mcp-config.json');
+}
+
+/**
+ * Resolve the MCP config file to load: the saved active config first,
+ * then the deployment default from MCP_CONFIG_PATH
+ */
+export async function resolveMCPConfigPath(): Promise<string | null> {
+  const candidates = [getActiveMCPConfigPath(), process.env.MCP_CONFIG_PATH].filter(
+    (candidate): candidate is string => !!candidate
+  );
+
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Try next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Read and parse an MCP config file
+ */
+export async function loadMCPConfig(configPath: string): Promise<MCPDiscoveryConfig> {
+  const content = await fs.readFile(configPath, 'utf8');
+  const config = JSON.parse(content) as MCPDiscoveryConfig;
+
+  if (!config || typeof config.mcpServers !== 'object' || config.mcpServers === null) {
+    throw new Error(`Invalid MCP config at ${configPath}: missing "mcpServers" object`);
+  }
+  return config;
+}
+
+/**
+ * Substitute ${VAR} references with values from the environment
+ */
+function expandEnv(value: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => process.env[name] || '');
+}
+
+function authenticationHeaders(endpoint: MCPConfigEndpoint): Record<string, string> {
+  const auth = endpoint.authentication;
+  if (!auth) return {};
+
+  if (auth.type === 'bearer' && auth.token) {
+    return { Authorization: `Bearer ${expandEnv(auth.token)}` };
+  }
+  if (auth.type === 'api_key' && auth.apiKey) {
+    return { 'X-API-Key': expandEnv(auth.apiKey) };
+  }
+  return {};
+}
+
+function inferTransport(endpoint: MCPConfigEndpoint, url: string): MCPServer['transport'] {
+  if (endpoint.transport) return endpoint.transport;
+  return /\/sse\/?$/.test(new URL(url).pathname) ? 'sse' : 'streamable_http';
+}
+
+/**
+ * Convert MCPDiscoveryConfig entries into MCPServer definitions.
+ * Entries with a command (or a stdio:// url) run as child processes; http(s) urls
+ * connect remotely. Discovery channels and registries are not servers and are skipped.
+ */
+export function parseMCPServers(config: MCPDiscoveryConfig): MCPServer[] {
+  const servers: MCPServer[] = [];
+
+  for (const [id, endpoint] of Object.entries(config.mcpServers)) {
+    if (endpoint.type && endpoint.type !== 'server') {
+      continue;
+    }
+
+    const env = Object.fromEntries(
+      Object.entries(endpoint.env || {}).map(([key, value]) => [key, expandEnv(value)])
+    );
+    const common = {
+      id,
+      name: id,
+      env,
+      status: 'stopped' as const,
+      timeout: endpoint.timeout,
+      maxRetries: endpoint.retries,
+      optional: endpoint.optional,
+      healthCheckInterval: endpoint.healthCheckInterval,
+      autoReconnect: endpoint.autoReconnect,
+      toolTimeouts: endpoint.toolTimeouts,
+    };
+
+    if (endpoint.command) {
+      servers.push({
+        ...common,
+        transport: 'stdio',
+        command: endpoint.command,
+        args: (endpoint.args || []).map(expandEnv),
+      });
+    } else if (endpoint.url?.startsWith('stdio://')) {
+      const [command, ...args] = endpoint.url.slice('stdio://'.length).split(/\s+/).filter(Boolean);
+      servers.push({ ...common, transport: 'stdio', command, args });
+    } else if (endpoint.url) {
+      const url = expandEnv(endpoint.url);
+      servers.push({
+        ...common,
+        transport: inferTransport(endpoint, url),
+        command: '',
+        endpoint: url,
+        headers: {
+          ...Object.fromEntries(
+            Object.entries(endpoint.headers || {}).map(([key, value]) => [key, expandEnv(value)])
+          ),
+          ...authenticationHeaders(endpoint),
+        },
+      });
+    }
+  }
+
+  return servers;
+}
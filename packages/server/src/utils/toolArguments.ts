@@ -0,0 +1,262 @@
+import { MCPArgumentValidation } from '@olympian/shared';
+
+/**
+ * Subset of JSON Schema used by MCP tool input schemas
+ */
+interface JSONSchema {
+  type?: string | string[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+interface ValidationContext {
+  errors: string[];
+  warnings: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function label(path: string): string {
+  return path || 'arguments';
+}
+
+function parseJSON(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert a value to the target type when it can be done without losing meaning.
+ * Models frequently send numbers and booleans as strings, or nested objects as JSON text.
+ */
+function coerce(value: unknown, type: string): { ok: boolean; value?: unknown } {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    switch (type) {
+      case 'number':
+      case 'integer': {
+        if (trimmed === '' || !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(trimmed)) break;
+        const num = Number(trimmed);
+        if (type === 'integer' && !Number.isInteger(num)) break;
+        return { ok: true, value: num };
+      }
+      case 'boolean':
+        if (/^(true|false)$/i.test(trimmed)) {
+          return { ok: true, value: trimmed.toLowerCase() === 'true' };
+        }
+        break;
+      case 'array':
+      case 'object': {
+        const parsed = parseJSON(trimmed);
+        if (parsed !== undefined && matchesType(parsed, type)) {
+          return { ok: true, value: parsed };
+        }
+        break;
+      }
+    }
+  } else if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+    return { ok: true, value: String(value) };
+  }
+  return { ok: false };
+}
+
+function validateValue(schema: JSONSchema | undefined, value: unknown, path: string, ctx: ValidationContext): unknown {
+  if (!schema || typeof schema !== 'object') {
+    return value;
+  }
+
+  // Alternatives: take the first branch that validates cleanly
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (alternatives) {
+    for (const branch of alternatives) {
+      const scratch: ValidationContext = { errors: [], warnings: [] };
+      const result = validateValue(branch, value, path, scratch);
+      if (scratch.errors.length === 0) {
+        ctx.warnings.push(...scratch.warnings);
+        return result;
+      }
+    }
+    ctx.errors.push(`${label(path)}: does not match any of the allowed schemas`);
+    return value;
+  }
+
+  const types = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type
+      ? [schema.type]
+      : schema.properties
+        ? ['object']
+        : [];
+
+  let current = value;
+  if (types.length > 0 && !types.some(type => matchesType(current, type))) {
+    const coerced = types.map(type => ({ type, ...coerce(current, type) })).find(result => result.ok);
+    if (!coerced) {
+      ctx.errors.push(`${label(path)}: expected ${types.join(' or ')} but received ${jsonType(current)}`);
+      return value;
+    }
+    ctx.warnings.push(`${label(path)}: coerced ${jsonType(current)} to ${coerced.type}`);
+    current = coerced.value;
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === current)) {
+    ctx.errors.push(`${label(path)}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.const !== undefined && schema.const !== current) {
+    ctx.errors.push(`${label(path)}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof current === 'string') {
+    if (schema.minLength !== undefined && current.length < schema.minLength) {
+      ctx.errors.push(`${label(path)}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && current.length > schema.maxLength) {
+      ctx.errors.push(`${label(path)}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern).test(current)) {
+          ctx.errors.push(`${label(path)}: must match pattern ${schema.pattern}`);
+        }
+      } catch {
+        // Patterns that are not valid JS regexes are not enforced
+      }
+    }
+  } else if (typeof current === 'number') {
+    if (schema.minimum !== undefined && current < schema.minimum) {
+      ctx.errors.push(`${label(path)}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && current > schema.maximum) {
+      ctx.errors.push(`${label(path)}: must be <= ${schema.maximum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && current <= schema.exclusiveMinimum) {
+      ctx.errors.push(`${label(path)}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && current >= schema.exclusiveMaximum) {
+      ctx.errors.push(`${label(path)}: must be < ${schema.exclusiveMaximum}`);
+    }
+  } else if (Array.isArray(current)) {
+    if (schema.minItems !== undefined && current.length < schema.minItems) {
+      ctx.errors.push(`${label(path)}: must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && current.length > schema.maxItems) {
+      ctx.errors.push(`${label(path)}: must contain at most ${schema.maxItems} items`);
+    }
+    current = current.map((item, index) => validateValue(schema.items, item, `${path}[${index}]`, ctx));
+  } else if (isPlainObject(current)) {
+    current = validateObject(schema, current, path, ctx);
+  }
+
+  return current;
+}
+
+function validateObject(
+  schema: JSONSchema,
+  value: Record<string, unknown>,
+  path: string,
+  ctx: ValidationContext
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const properties = schema.properties || {};
+  const childPath = (key: string): string => (path ? `${path}.${key}` : key);
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    if (value[key] !== undefined) {
+      result[key] = validateValue(propertySchema, value[key], childPath(key), ctx);
+    } else if (propertySchema && propertySchema.default !== undefined) {
+      result[key] = structuredClone(propertySchema.default);
+    }
+  }
+
+  for (const key of schema.required || []) {
+    if (result[key] === undefined) {
+      ctx.errors.push(`${childPath(key)}: is required`);
+    }
+  }
+
+  for (const [key, extra] of Object.entries(value)) {
+    if (key in properties) continue;
+
+    if (schema.additionalProperties === false) {
+      ctx.errors.push(`${childPath(key)}: is not an allowed property`);
+    } else if (isPlainObject(schema.additionalProperties)) {
+      result[key] = validateValue(schema.additionalProperties, extra, childPath(key), ctx);
+    } else {
+      result[key] = extra;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate tool arguments against the tool's JSON Schema, applying safe
+ * coercions and schema defaults. sanitizedArguments is what should be sent
+ * to the server when the call is valid.
+ */
+export function validateToolArguments(inputSchema: unknown, args: unknown): MCPArgumentValidation {
+  const ctx: ValidationContext = { errors: [], warnings: [] };
+  let input = args ?? {};
+
+  // Some models send the whole argument object as a JSON string
+  if (typeof input === 'string') {
+    const parsed = parseJSON(input);
+    if (isPlainObject(parsed)) {
+      ctx.warnings.push('arguments: parsed JSON string into an object');
+      input = parsed;
+    }
+  }
+
+  if (!isPlainObject(input)) {
+    return {
+      isValid: false,
+      errors: [`arguments: expected object but received ${jsonType(input)}`]
+    };
+  }
+
+  if (!isPlainObject(inputSchema)) {
+    return { isValid: true, sanitizedArguments: input };
+  }
+
+  const sanitizedArguments = validateObject(inputSchema as JSONSchema, input, '', ctx);
+
+  return {
+    isValid: ctx.errors.length === 0,
+    errors: ctx.errors.length > 0 ? ctx.errors : undefined,
+    warnings: ctx.warnings.length > 0 ? ctx.warnings : undefined,
+    sanitizedArguments
+  };
+}
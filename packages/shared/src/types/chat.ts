@@ -1,6 +1,6 @@
 // Import from artifacts.ts instead of redefining
 import type { ArtifactReference } from './artifacts';
-import type { MCPTool } from './mcp';
+import type { MCPErrorType, MCPResource, MCPTool, MCPToolSelectionResponse } from './mcp';
 
 export interface Conversation {
   _id?: string;
@@ -9,6 +9,75 @@ export interface Conversation {
   createdAt: Date;
   updatedAt: Date;
   messageCount: number;
+  toolSetId?: string; // Tool set used for this conversation; the active set when unset
+  activeLeafId?: string; // Last message of the branch being shown and continued; the newest message when unset
+  summary?: ConversationSummary;
+  contextUsage?: ContextUsage;
+  personaId?: string; // Persona the conversation was started with or switched to
+  systemPrompt?: string; // Overrides the persona's system prompt
+}
+
+// Rolling summary of the messages that no longer fit in the model's history window
+export interface ConversationSummary {
+  content: string;
+  throughMessageId: string; // Last message the summary covers
+  messageCount: number; // Messages of the branch it covers, from the first
+  updatedAt: Date;
+}
+
+// How much of the model's context window the conversation's latest request used
+export interface ContextUsage {
+  model: string;
+  contextWindow: number; // num_ctx the request ran with
+  promptTokens: number; // Ollama's prompt_eval_count, or the estimate when Ollama reused a cached prompt
+  completionTokens?: number;
+  measured: boolean; // Whether promptTokens came from Ollama
+  updatedAt: Date;
+}
+
+// Ollama sampling options a persona runs with; unset ones use the defaults
+export interface PersonaSampling {
+  temperature?: number;
+  top_p?: number;
+  seed?: number;
+  num_ctx?: number;
+}
+
+// Reusable assistant setup a conversation can be started with
+export interface Persona {
+  _id?: string;
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  defaultModel?: string;
+  sampling?: PersonaSampling;
+  toolSetId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Persona fields a client creates or edits
+export type PersonaInput = Omit<Persona, '_id' | 'createdAt' | 'updatedAt'>;
+
+// Persona as exported to JSON. Tool sets are referenced by name, since ids differ between installs.
+export interface PersonaExportEntry extends Omit<Persona, '_id' | 'toolSetId' | 'createdAt' | 'updatedAt'> {
+  toolSet?: string;
+}
+
+export interface PersonaExport {
+  version: 1;
+  exportedAt: Date;
+  personas: PersonaExportEntry[];
+}
+
+export interface ConversationMemoryStats {
+  messageCount: number; // Stored messages, all branches
+  estimatedTokens: number;
+  oldestMessage?: Date;
+  newestMessage?: Date;
+  activeBranch?: { messageCount: number; estimatedTokens: number };
+  summarizedMessages?: number; // Messages of the active branch covered by the summary
+  context?: ContextUsage & { usedPercent: number };
 }
 
 export interface Message {
@@ -18,9 +87,19 @@ export interface Message {
   content: string;
   images?: string[]; // Array of base64 images
   metadata?: MessageMetadata;
+  // Messages form a tree: the message this one follows, null for a first message.
+  // Unset on messages saved before branching, which follow the message saved before them.
+  parentId?: string | null;
+  branch?: MessageBranch; // Set by the server on messages that have siblings
   createdAt: Date;
 }
 
+// Alternatives at one point of a conversation, from regenerating or editing
+export interface MessageBranch {
+  siblingIds: string[]; // All alternatives, oldest first
+  index: number; // Position of this message in siblingIds
+}
+
 // NEW: Thinking models support
 export interface ThinkingData {
   content: string; // Raw thinking content from <think> tags
@@ -36,8 +115,10 @@ export interface ToolCall {
     name: string; // Format: "serverId.toolName" or just "toolName"
     arguments: Record<string, any>;
   };
+  originalArguments?: Record<string, unknown>; // What the model proposed, when the user edited the arguments before approving
   serverId?: string; // MCP server ID
   status?: 'pending' | 'executing' | 'completed' | 'failed';
+  step?: number; // Agent loop iteration that issued the call (1-based)
   startTime?: Date;
   endTime?: Date;
 }
@@ -47,9 +128,11 @@ export interface ToolResult {
   success: boolean;
   result?: any;
   error?: string;
+  errorType?: MCPErrorType;
   duration?: number; // in milliseconds
   serverId?: string;
   toolName?: string;
+  cachedResult?: boolean; // Served from the tool result cache
 }
 
 export interface MessageMetadata {
@@ -58,6 +141,7 @@ export interface MessageMetadata {
   model?: string;
   error?: string;
   visionModel?: string; // Vision model used for image processing
+  cancelled?: boolean; // Generation was stopped by the user; content is the partial text
   
   // NEW: Thinking models support
   thinking?: ThinkingData; // Thinking/reasoning content
@@ -69,6 +153,9 @@ export interface MessageMetadata {
   toolsUsed?: string[]; // Simple list of tool names used (for quick lookup)
   toolExecutionTime?: number; // Total time spent executing tools
   mcpServersUsed?: string[]; // List of MCP server IDs that were used
+  agentSteps?: number; // Number of model calls made by the tool loop
+  offeredTools?: string[]; // Tools offered to the model after relevance preselection
+  attachedResources?: MCPResource[]; // MCP resources attached as context to a user message
   
   // NEW: Multi-artifact support (Phase 1)
   artifacts?: ArtifactReference[]; // Array of artifacts for multi-artifact support
@@ -109,6 +196,11 @@ export interface ChatRequest {
   num_ctx?: number;
   messages?: any[];
   prompt?: string;
+  maxToolSteps?: number; // Upper bound on tool-calling rounds before a final answer is forced
+  toolSetId?: string; // Tool set to offer tools from instead of the active one
+  clientId?: string; // Browser tab that sent the message, which receives its HIL prompts
+  parentMessageId?: string | null; // Message the new turn follows; history is the branch ending there (null: none). The active branch when unset
+  systemPrompt?: string; // The deployment's default system prompt when unset
 }
 
 export interface ProcessedRequest {
@@ -118,10 +210,16 @@ export interface ProcessedRequest {
     content: string;
     images?: string[];
     tool_calls?: ToolCall[]; // Tool calls from previous assistant messages
+    tool_name?: string; // Tool that produced a 'tool' role message
   }>;
   stream?: boolean;
   options?: Record<string, unknown>;
   tools?: any[]; // MCP tools array formatted for Ollama
+  toolSelection?: MCPToolSelectionResponse; // How the offered tools were preselected
+  toolSetId?: string; // Tool set the offered tools came from, re-checked when tools are called
+  conversationId?: string; // Scopes "allow for this conversation" approvals
+  clientId?: string; // Where HIL prompts for this request are sent
+  maxToolSteps?: number; // Tool-calling rounds before the agent loop forces a final answer
   tool_choice?: string; // Tool choice strategy (e.g., 'auto', 'none', or specific tool)
 }
 
@@ -8,6 +8,7 @@ export interface MCPServer {
   env?: Record<string, string>;
   transport: 'stdio' | 'http' | 'streamable_http' | 'sse';
   endpoint?: string;
+  headers?: Record<string, string>; // extra HTTP headers for remote transports (e.g. Authorization)
   status: 'running' | 'stopped' | 'error' | 'initializing' | 'health_check';
   lastError?: string;
   
@@ -22,7 +23,8 @@ export interface MCPServer {
   // Configuration
   healthCheckInterval?: number; // in milliseconds, default 300000 (5 mins)
   maxRetries?: number; // default 3
-  timeout?: number; // default 30000ms
+  timeout?: number; // default 30000ms, applied to each tool call
+  toolTimeouts?: Record<string, number>; // per-tool overrides in milliseconds, keyed by tool name
   priority?: number; // for fallback ordering, default 0
   optional?: boolean; // whether the server is optional (won't fail if can't connect)
   autoReconnect?: boolean; // whether to auto-reconnect on disconnect
@@ -50,7 +52,72 @@ export interface MCPServerStatus {
   status: "running" | "stopped" | "error";
   tools: number;
   error?: string;
+  healthStatus?: MCPServerHealth['healthStatus'];
 }
+
+// Health supervision state for a server
+export interface MCPServerHealth {
+  serverId: string;
+  healthStatus: 'healthy' | 'unhealthy' | 'unknown';
+  consecutiveFailures: number;
+  restartAttempts: number;
+  lastHealthCheck?: Date;
+  lastError?: string;
+  nextRetryAt?: Date; // set while a reconnect is scheduled
+}
+// Named, persisted selection of enabled tools (e.g. "coding", "research")
+export interface ToolSet {
+  _id?: string;
+  name: string;
+  description?: string;
+  tools: string[]; // qualified tool names: serverId.toolName
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type HILPolicyAction = 'allow' | 'deny' | 'ask';
+
+// Rule deciding whether a tool call runs, is refused or needs approval.
+// Patterns use * as a wildcard; omitted fields match anything.
+export interface HILPolicy {
+  _id?: string;
+  action: HILPolicyAction;
+  serverId?: string;
+  toolName?: string; // tool name without the server prefix
+  argumentPatterns?: Record<string, string>; // argument name -> regular expression
+  priority?: number; // higher wins; otherwise the most specific rule wins
+  timeoutMs?: number; // how long an approval prompt waits before rejecting
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// How far an approval from the confirmation prompt reaches
+export type HILApprovalScope = 'once' | 'conversation' | 'always';
+
+// What settled a HIL request: the user, a policy, an earlier "allow for this
+// conversation" answer, or the timeout
+export type HILDecisionSource = 'user' | 'policy' | 'conversation' | 'timeout' | 'cancelled';
+
+export interface HILAuditEntry {
+  _id?: string;
+  requestId: string;
+  toolName: string;
+  serverId: string;
+  arguments: unknown;
+  editedArguments?: Record<string, unknown>;
+  conversationId?: string;
+  decision: 'approved' | 'rejected' | 'timeout';
+  source: HILDecisionSource;
+  scope?: HILApprovalScope;
+  policyId?: string;
+  socketId?: string;
+  clientAddress?: string;
+  requestedAt: Date;
+  decidedAt: Date;
+  latencyMs: number;
+}
+
 export interface ToolOverride {
   description?: string;
   parameterDescriptions?: Record<string, string>;
@@ -68,6 +135,16 @@ export interface MCPPrompt {
   serverId: string;
 }
 
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPContent;
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
 export interface MCPResource {
   uri: string;
   name?: string;
@@ -76,6 +153,14 @@ export interface MCPResource {
   serverId: string;
 }
 
+export interface MCPResourceTemplate {
+  uriTemplate: string; // RFC 6570 URI template, e.g. "file:///{path}"
+  name?: string;
+  description?: string;
+  mimeType?: string;
+  serverId: string;
+}
+
 export interface MCPConfig {
   servers: MCPServer[];
   version: string;
@@ -86,6 +171,14 @@ export interface MCPConfig {
   maxConcurrentConnections?: number;
   enableCaching?: boolean;
   cacheExpiration?: number; // in milliseconds
+  cacheableTools?: string[]; // "serverId.toolName" patterns, "*" wildcards allowed
+}
+
+// Sampling: completions requested by MCP servers and run on Ollama
+export interface MCPSamplingConfig {
+  enabled?: boolean; // default true
+  model?: string; // falls back to MCP_SAMPLING_MODEL, then the server's model hints
+  maxTokens?: number; // upper bound for server-requested completions
 }
 
 // Enhanced request/response interfaces
@@ -131,6 +224,7 @@ export interface MCPResourceContent {
   type: 'resource';
   uri: string;
   text?: string;
+  blob?: string; // base64 encoded binary contents
   mimeType?: string;
 }
 
@@ -165,10 +259,27 @@ export interface MCPToolCacheStatus {
   missRate?: number;
 }
 
+// Tool result cache statistics
+export interface MCPResultCacheStats {
+  enabled: boolean;
+  ttl: number; // in milliseconds
+  cacheableTools: string[];
+  entries: number;
+  expiredEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate?: number;
+  missRate?: number;
+  entriesByTool: Record<string, number>;
+  lastCacheUpdate?: Date;
+}
+
 // Configuration parsing interfaces - Updated to support stdio-specific properties
 export interface MCPConfigEndpoint {
-  url: string;
-  type: 'server' | 'discovery_channel' | 'registry';
+  url?: string; // omitted for stdio entries that only specify a command
+  type?: 'server' | 'discovery_channel' | 'registry'; // defaults to 'server'
+  transport?: 'http' | 'streamable_http' | 'sse'; // remote transport, inferred from url when omitted
   authentication?: {
     type: 'bearer' | 'api_key' | 'oauth';
     token?: string;
@@ -184,6 +295,9 @@ export interface MCPConfigEndpoint {
   args?: string[];
   env?: Record<string, string>;
   optional?: boolean; // whether the server is optional
+  healthCheckInterval?: number; // in milliseconds
+  autoReconnect?: boolean;
+  toolTimeouts?: Record<string, number>; // per-tool call timeouts in milliseconds
 }
 
 export interface MCPDiscoveryConfig {
@@ -191,6 +305,19 @@ export interface MCPDiscoveryConfig {
   wellKnownPaths?: string[];
   registryUrls?: string[];
   cacheTtl?: number;
+
+  // Default tool call timeout for servers without their own
+  globalTimeout?: number; // in milliseconds
+
+  // Tool result caching
+  enableCaching?: boolean;
+  cacheExpiration?: number; // in milliseconds
+  cacheableTools?: string[];
+
+  // Cross-server fallback, keyed by primary server
+  fallbackStrategies?: MCPFallbackStrategy[];
+
+  sampling?: MCPSamplingConfig;
 }
 
 // Protocol negotiation
@@ -228,6 +355,9 @@ export interface MCPToolSelectionResponse {
   confidence: number; // 0-1
   reasoning?: string;
   alternativeTools?: MCPTool[];
+  method?: 'all' | 'bm25' | 'hybrid'; // 'all' when every tool fit without ranking
+  scores?: Record<string, number>; // relevance of the selected and alternative tools, 0-1
+  totalTools?: number; // tools considered before selection
 }
 
 // Argument parsing and validation
@@ -292,7 +422,8 @@ export type MCPErrorType =
   | 'NETWORK_ERROR'
   | 'AUTHENTICATION_ERROR'
   | 'CONFIGURATION_ERROR'
-  | 'CACHE_ERROR';
+  | 'CACHE_ERROR'
+  | 'CANCELLED';
 
 export interface MCPError extends Record<string, unknown> {
   type: MCPErrorType;
@@ -1,6 +1,7 @@
 // Import types for type safety and consistency
 import { ConnectionType, ConnectionStatus, ScanResult, ScanProgress } from './connections';
-import { MessageMetadata, ModelCapability, ToolCall, ToolResult } from './chat';
+import { ConversationMemoryStats, MessageMetadata, ModelCapability, ToolCall, ToolResult } from './chat';
+import { MCPErrorType } from './mcp';
 
 // Client -> Server Events
 export interface ClientEvents {
@@ -36,6 +37,13 @@ export interface ClientEvents {
     toolName: string;
     arguments: Record<string, any>;
   };
+  'tool:cancel': {
+    toolCallId: string;
+  };
+  // Receive HIL prompts for the conversation shown in this client
+  'conversation:join': {
+    conversationId: string;
+  };
 }
 
 // Server -> Client Events
@@ -82,7 +90,7 @@ export interface ServerEvents {
   'model:capabilities': ModelCapability;
   'memory:stats': {
     conversationId: string;
-    stats: any;
+    stats: ConversationMemoryStats;
   };
   'memory:cleared': {
     conversationId: string;
@@ -110,6 +118,9 @@ export interface ServerEvents {
     error?: string;
     toolCount?: number;
     lastHealthCheck?: Date;
+    healthStatus?: 'healthy' | 'unhealthy' | 'unknown';
+    consecutiveFailures?: number;
+    nextRetryAt?: Date;
   };
   'tool:execution:start': {
     toolCall: ToolCall;
@@ -135,6 +146,21 @@ export interface ServerEvents {
     messageId?: string;
     timestamp: Date;
   };
+  // Lightweight execution feed for ToolExecutionFeedback
+  'tool:executing': {
+    id: string;
+    toolName: string;
+    namespace: string;
+  };
+  'tool:result': {
+    id: string;
+    result: unknown;
+  };
+  'tool:error': {
+    id: string;
+    error: string;
+    errorType?: MCPErrorType;
+  };
   'tool:availability:changed': {
     available: boolean;
     toolCount: number;